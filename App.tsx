@@ -1,114 +1,528 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ViewState, Language, DictionaryEntry, ChatMessage, StoryResult } from './types';
-import { SUPPORTED_LANGUAGES, MOCK_IMAGE_PLACEHOLDER } from './constants';
-import { lookupTerm, playAudio, createChatSession, generateStoryFromNotes } from './services/geminiService';
-import { SearchIcon, BookIcon, BrainIcon, SparklesIcon, SpeakerIcon, MessageCircleIcon, ChevronLeftIcon, SaveIcon } from './components/Icons';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { ViewState, Language, DictionaryEntry, LearnerProfile, SentenceAnalysis, SentenceToken, StoryOptions, StoryResult, SavedStory, ReviewGrade, PronunciationAssessment } from './types';
+import { SUPPORTED_LANGUAGES, MOCK_IMAGE_PLACEHOLDER, findLanguage, textAttributes } from './constants';
+import { lookupTerm, analyzeSentence, generateStoryFromNotes } from './services/geminiService';
+import { playAudio, preloadAudio } from './services/audioService';
+import { getDueCards, getNextDueAt, isLearned, scheduleReview, formatInterval } from './services/scheduler';
+import { getCachedLookup, cacheLookup, normalizeTerm, makeLookupKey } from './services/lookupCache';
+import {
+  PendingLookup, loadNotebook, saveEntry, deleteEntry, loadSettings, saveSettings, loadStories, saveStory,
+} from './services/storage';
+import { SearchIcon, BookIcon, SparklesIcon, SpeakerIcon, MessageCircleIcon, ChevronLeftIcon, SaveIcon, RefreshIcon, SettingsIcon, CameraIcon, BookOpenIcon, ChartIcon } from './components/Icons';
 import { Flashcard } from './components/Flashcard';
-import { Chat } from '@google/genai';
+import { AudioControls } from './components/AudioControls';
+import { NotebookView } from './components/NotebookView';
+import { TagEditor } from './components/TagEditor';
+import { LanguagePicker } from './components/LanguagePicker';
+import { SettingsView } from './components/SettingsView';
+import { PronunciationPractice } from './components/PronunciationPractice';
+import { QuizView } from './components/QuizView';
+import { PhotoLookup } from './components/PhotoLookup';
+import { ReaderView } from './components/ReaderView';
+import { StoryLibrary } from './components/StoryLibrary';
+import { StoryReader } from './components/StoryReader';
+import { PendingLookups } from './components/PendingLookups';
+import { EntryDetails } from './components/EntryDetails';
+import { SentenceBreakdown } from './components/SentenceBreakdown';
+import { LearnerProfileForm } from './components/LearnerProfileForm';
+import { StatsView } from './components/StatsView';
+import { WordOfTheDay } from './components/WordOfTheDay';
+import { ConflictStrategy, ImportResult, LanguagePair, mergeEntries } from './services/notebookIO';
+import { createSearchIndex } from './services/notebookSearch';
+import { AIError, toAIError, describeError } from './services/errors';
+import { Route, getCurrentRoute, writeRoute, subscribeToRoute } from './services/router';
+import { appendAttempt } from './services/pronunciationService';
+import { recordQuizAnswer } from './services/quizEngine';
+import { useChatThread } from './services/useChatThread';
+import { pickStoryWords } from './services/storyService';
+import { getIsOnline, subscribeToConnectivity } from './services/connectivity';
+import { useOfflineQueue } from './services/useOfflineQueue';
+import { looksLikeSentence } from './services/textSegmenter';
+import { DEFAULT_LEARNER_PROFILE, levelFor, toLearnerProfile } from './services/learnerProfile';
+import { exportActivityLog } from './services/statsService';
+import { useActivityLog } from './services/useActivityLog';
+import { useWordOfTheDay } from './services/useWordOfTheDay';
+import { useReminders } from './services/useReminders';
 
 const App: React.FC = () => {
   // --- State ---
+  const [isHydrated, setIsHydrated] = useState(false);
   const [view, setView] = useState<ViewState>(ViewState.ONBOARDING);
   const [nativeLang, setNativeLang] = useState<Language>(SUPPORTED_LANGUAGES[0]);
   const [targetLang, setTargetLang] = useState<Language>(SUPPORTED_LANGUAGES[1]);
+  const [profile, setProfile] = useState<LearnerProfile>(DEFAULT_LEARNER_PROFILE);
   
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isResultStreaming, setIsResultStreaming] = useState(false); // Text still arriving
+  const [isImagePending, setIsImagePending] = useState(false);
+  const lookupRequestRef = useRef(0);
   const [currentResult, setCurrentResult] = useState<DictionaryEntry | null>(null);
+  const [error, setError] = useState<AIError | null>(null);
+  const [sentence, setSentence] = useState<{ key: string; text: string; analysis: SentenceAnalysis | null } | null>(null);
+  const [isSentenceStreaming, setIsSentenceStreaming] = useState(false);
+  const sentenceCacheRef = useRef(new Map<string, SentenceAnalysis>()); // For this session only
+  const [photoFile, setPhotoFile] = useState<File | null>(null); // Being read in the photo panel
+  const [photoContext, setPhotoContext] = useState<{ term: string; photo: string } | null>(null); // Last photo lookup
+  const [readerText, setReaderText] = useState(''); // Kept while the learner opens words from it
+  const isOnline = useSyncExternalStore(subscribeToConnectivity, getIsOnline);
+  const offlineQueue = useOfflineQueue(isOnline, profile); // Searched for while offline
   
   const [notebook, setNotebook] = useState<DictionaryEntry[]>([]);
-  const [story, setStory] = useState<StoryResult | null>(null);
+  const [savedStories, setSavedStories] = useState<SavedStory[]>([]);
+  const [storyId, setStoryId] = useState<string | null>(null); // Open story; null shows the library
+  const [storyDraft, setStoryDraft] = useState<StoryResult | null>(null); // Streaming in
   const [isGeneratingStory, setIsGeneratingStory] = useState(false);
+  const { events, recordEvent } = useActivityLog();
+  const { remindersEnabled, toggleReminders } = useReminders(notebook, nativeLang.code, targetLang.code);
   
   // Chat State
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const { chatSession, chatHistory, isChatLoading, isChatReplying, startChat, sendChatMessage } = useChatThread();
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [chatInput, setChatInput] = useState('');
-  const [isChatLoading, setIsChatLoading] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // Lives for the whole session; sync only re-indexes entries that were
+  // saved, changed or removed since the last render.
+  const searchIndexRef = useRef(createSearchIndex());
+  searchIndexRef.current.sync(notebook);
+
+  // The URL the app was opened with, applied once onboarding is out of the way
+  const initialRouteRef = useRef<Route | null>(getCurrentRoute());
+
+  // Each language pair has its own notebook
+  const pairNotebook = notebook.filter(n => n.nativeLang === nativeLang.code && n.targetLang === targetLang.code);
+  const findSaved = (term: string, target: Language = targetLang) => notebook.find(n =>
+    n.nativeLang === nativeLang.code && n.targetLang === target.code && normalizeTerm(n.term) === normalizeTerm(term)
+  );
+
+  // --- Persistence ---
+
+  useEffect(() => {
+    Promise.all([loadNotebook(), loadSettings(), loadStories()])
+      .then(([entries, settings, stories]) => {
+        setNotebook(entries);
+        setProfile(toLearnerProfile(settings.learnerProfile));
+        const savedNative = settings.nativeLangCode ? findLanguage(settings.nativeLangCode) : undefined;
+        const savedTarget = settings.targetLangCode ? findLanguage(settings.targetLangCode) : undefined;
+        if (savedNative && savedTarget && savedNative.code !== savedTarget.code) {
+          setNativeLang(savedNative);
+          setTargetLang(savedTarget);
+          setView(ViewState.HOME); // Returning user, skip onboarding
+        }
+        setSavedStories(stories);
+      })
+      .catch(error => console.error("Failed to load saved data:", error))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
   // --- Handlers ---
 
   const handleStart = () => {
+    if (nativeLang.code === targetLang.code) return;
+    saveSettings({ nativeLangCode: nativeLang.code, targetLangCode: targetLang.code, learnerProfile: profile })
+      .catch(error => console.error("Failed to save settings:", error));
     setView(ViewState.HOME);
   };
 
-  const handleSearch = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!query.trim()) return;
+  const selectPair = (native: Language, target: Language) => {
+    setNativeLang(native);
+    setTargetLang(target);
+    if (target.code !== targetLang.code) setReaderText(''); // The passage was in the old language
+    saveSettings({ nativeLangCode: native.code, targetLangCode: target.code })
+      .catch(error => console.error("Failed to save settings:", error));
+  };
+
+  const handleSaveSettings = (native: Language, target: Language, updated: LearnerProfile) => {
+    selectPair(native, target);
+    setProfile(updated);
+    saveSettings({ learnerProfile: updated })
+      .catch(error => console.error("Failed to save settings:", error));
+    setCurrentResult(null); // Belongs to the old pair
+    setQuery('');
+    navigate({ view: ViewState.HOME });
+  };
+
+  const handleSwitchPair = (pair: LanguagePair) => {
+    const native = findLanguage(pair.nativeLang);
+    const target = findLanguage(pair.targetLang);
+    if (native && target) selectPair(native, target);
+  };
+
+  // Persists an entry, then points it at the stored copies of its images so
+  // later saves don't write them again. An image changed in the meantime is
+  // left alone.
+  const persistEntry = (entry: DictionaryEntry, failure = "Failed to save entry:") => {
+    saveEntry(entry)
+      .then(stored => {
+        if (stored.imageUrl === entry.imageUrl && stored.sourceImage === entry.sourceImage) return;
+        const useStored = (n: DictionaryEntry): DictionaryEntry => n.id !== stored.id ? n : {
+          ...n,
+          imageUrl: n.imageUrl === entry.imageUrl ? stored.imageUrl : n.imageUrl,
+          sourceImage: n.sourceImage === entry.sourceImage ? stored.sourceImage : n.sourceImage,
+        };
+        setNotebook(prev => prev.map(useStored));
+        setCurrentResult(prev => prev && useStored(prev));
+      })
+      .catch(error => console.error(failure, error));
+  };
+
+  // Replaces a saved entry everywhere it is shown and persists it
+  const updateEntry = (updated: DictionaryEntry) => {
+    setNotebook(prev => prev.map(n => n.id === updated.id ? updated : n));
+    setCurrentResult(prev => prev?.id === updated.id ? updated : prev);
+    persistEntry(updated);
+  };
+
+  // Resolves a term from the notebook, then the lookup cache, and only then
+  // the model. `forceRefresh` skips straight to the model and updates any
+  // saved copy in place.
+  const runLookup = async (term: string, target: Language = targetLang, forceRefresh = false) => {
+    // Updates from an older lookup must not overwrite a newer one
+    const requestId = ++lookupRequestRef.current;
+    const isCurrent = () => requestId === lookupRequestRef.current;
 
     setIsLoading(true);
-    setView(ViewState.HOME); // Ensure we are on home/loading
+    setError(null);
+    setView(ViewState.RESULT);
+    if (!forceRefresh) setCurrentResult(null); // Don't leave the previous word up if this one fails
     try {
-      const result = await lookupTerm(query, nativeLang.name, targetLang.name);
+      const saved = findSaved(term, target);
+      let result: DictionaryEntry | null = null;
+
+      if (!forceRefresh) {
+        result = saved || await getCachedLookup(term, nativeLang.code, target.code);
+      }
+      if (!result && !forceRefresh && !navigator.onLine) {
+        await queueOfflineLookup(term, target);
+        return;
+      }
+      if (!result) {
+        // Show the card as soon as text starts streaming; the image follows
+        const fresh = await lookupTerm(term, nativeLang, target, profile, (partial, isTextComplete) => {
+          if (!isCurrent() || !partial.definition) return;
+          setCurrentResult(partial);
+          setIsLoading(false);
+          setIsResultStreaming(!isTextComplete);
+          setIsImagePending(true);
+        });
+        if (!isCurrent()) return;
+        cacheLookup(term, nativeLang.code, target.code, fresh)
+          .catch(error => console.warn("Failed to cache lookup:", error));
+        result = fresh;
+
+        if (saved) {
+          // Keep the saved entry's identity, organisation and study progress
+          result = {
+            ...fresh,
+            id: saved.id,
+            savedAt: saved.savedAt,
+            review: saved.review,
+            pronunciation: saved.pronunciation,
+            quiz: saved.quiz,
+            notes: saved.notes,
+            sourceImage: saved.sourceImage,
+            tags: saved.tags,
+            folder: saved.folder,
+          };
+          updateEntry(result);
+        }
+      }
+
+      if (!isCurrent()) return;
       setCurrentResult(result);
-      setView(ViewState.RESULT);
-      
-      // Initialize chat session for this term
-      const session = createChatSession(`
-        You are a helpful language tutor assistant. 
-        The user is currently looking at the word: "${result.term}".
-        The user speaks ${nativeLang.name} and is learning ${targetLang.name}.
-        Answer questions about this specific word, its usage, or grammar casually.
-      `);
-      setChatSession(session);
-      setChatHistory([{ role: 'model', text: `Hi! Ask me anything about "${result.term}"! 👋` }]);
+      startChat(result, nativeLang, target, profile);
+      // Opening a saved word isn't a new lookup; only cache and model results are logged
+      if (!forceRefresh && result !== saved) recordEvent('lookup', result);
+
+    } catch (error) {
+      console.error(error);
+      const aiError = toAIError(error);
+      // The connection dropped mid-lookup: keep the search for later. Failures
+      // while still online are shown, so an outage or a bug isn't hidden.
+      if (aiError.kind === 'network' && !navigator.onLine && !forceRefresh && isCurrent()) await queueOfflineLookup(term, target);
+      else if (isCurrent()) setError(aiError);
+    } finally {
+      if (isCurrent()) {
+        setIsLoading(false);
+        setIsResultStreaming(false);
+        setIsImagePending(false);
+      }
+    }
+  };
+
+  // Sentences get a breakdown instead of an entry. Shares the lookup request
+  // counter with runLookup, so whichever was asked for last wins.
+  const runSentenceAnalysis = async (text: string, target: Language = targetLang) => {
+    const requestId = ++lookupRequestRef.current;
+    const isCurrent = () => requestId === lookupRequestRef.current;
+    const key = makeLookupKey(text, nativeLang.code, target.code);
+
+    setError(null);
+    setIsLoading(false);
+    setView(ViewState.SENTENCE);
+    const cached = sentenceCacheRef.current.get(key);
+    setSentence({ key, text, analysis: cached || null });
+    if (cached) return;
 
+    setIsSentenceStreaming(true);
+    try {
+      const analysis = await analyzeSentence(text, nativeLang, target, profile, (partial) => {
+        if (isCurrent() && partial.tokens.length > 0) setSentence({ key, text, analysis: partial });
+      });
+      sentenceCacheRef.current.set(key, analysis);
+      if (isCurrent()) setSentence({ key, text, analysis });
     } catch (error) {
       console.error(error);
-      alert("Oops! Something went wrong finding that word.");
+      if (isCurrent()) setError(toAIError(error));
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) setIsSentenceStreaming(false);
+    }
+  };
+
+  // Saves a word from a sentence as its own entry, in dictionary form
+  const handleSaveToken = async (token: SentenceToken) => {
+    const entry = await resolveTerm(token.lemma);
+    handleSaveWords([entry]);
+  };
+
+  // --- Offline Lookups ---
+
+  // Remembers the search and returns to HOME, where the queue is listed
+  const queueOfflineLookup = async (term: string, target: Language) => {
+    await offlineQueue.queue(term, nativeLang, target);
+    writeRoute({ view: ViewState.HOME }, true);
+    setView(ViewState.HOME);
+  };
+
+  const handleOpenPending = (pending: PendingLookup) => {
+    offlineQueue.dismiss(pending);
+    navigate({ view: ViewState.RESULT, targetLang: pending.targetLang, term: pending.term });
+  };
+
+  // The reader looks words up without taking over the RESULT view, but
+  // resolves them the same way so both share the notebook and cache
+  const resolveTerm = async (term: string, onText?: (entry: DictionaryEntry) => void): Promise<DictionaryEntry> => {
+    const known = findSaved(term) || await getCachedLookup(term, nativeLang.code, targetLang.code);
+    if (known) return known;
+    const fresh = await lookupTerm(term, nativeLang, targetLang, profile, (partial, isTextComplete) => {
+      if (isTextComplete) onText?.(partial);
+    });
+    cacheLookup(term, nativeLang.code, targetLang.code, fresh)
+      .catch(error => console.warn("Failed to cache lookup:", error));
+    return fresh;
+  };
+
+  // Offered on the home screen, from the notebook or the model
+  const wordOfTheDay = useWordOfTheDay(
+    isHydrated && view === ViewState.HOME, pairNotebook, nativeLang, targetLang, profile, isOnline, term => resolveTerm(term)
+  );
+
+  // --- Navigation ---
+
+  // Brings the screen in line with `route`. Used for in-app navigation as
+  // well as for links and the back/forward buttons.
+  const applyRoute = (route: Route) => {
+    if (view === ViewState.ONBOARDING) return;
+    setIsChatOpen(false);
+
+    switch (route.view) {
+      case ViewState.RESULT: {
+        const target = findLanguage(route.targetLang);
+        if (!target || target.code === nativeLang.code) {
+          writeRoute({ view: ViewState.HOME }, true);
+          setView(ViewState.HOME);
+          return;
+        }
+        if (target.code !== targetLang.code) selectPair(nativeLang, target);
+        setQuery(route.term);
+
+        const isShowing = currentResult
+          && currentResult.nativeLang === nativeLang.code
+          && currentResult.targetLang === target.code
+          && normalizeTerm(currentResult.term) === normalizeTerm(route.term);
+        if (isShowing) setView(ViewState.RESULT);
+        else runLookup(route.term, target);
+        return;
+      }
+      case ViewState.SENTENCE: {
+        const target = findLanguage(route.targetLang);
+        if (!target || target.code === nativeLang.code) {
+          writeRoute({ view: ViewState.HOME }, true);
+          setView(ViewState.HOME);
+          return;
+        }
+        if (target.code !== targetLang.code) selectPair(nativeLang, target);
+        setQuery(route.text);
+        runSentenceAnalysis(route.text, target);
+        return;
+      }
+      case ViewState.STORY:
+        // Stories live on this device only, so a shared link may not resolve
+        setStoryId(route.storyId || null);
+        setView(ViewState.STORY);
+        return;
+      default:
+        setView(route.view);
     }
   };
 
+  const navigate = (route: Route) => {
+    writeRoute(route);
+    applyRoute(route);
+  };
+
+  // The popstate listener outlives renders, so it calls through a ref
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+  useEffect(() => subscribeToRoute(route => applyRouteRef.current(route)), []);
+
+  useEffect(() => {
+    if (!isHydrated || view === ViewState.ONBOARDING || !initialRouteRef.current) return;
+    const route = initialRouteRef.current;
+    initialRouteRef.current = null;
+    applyRoute(route);
+  }, [isHydrated, view]);
+
+  const handleSearch = (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!query.trim()) return;
+    const text = query.trim();
+    navigate(looksLikeSentence(text, targetLang.code)
+      ? { view: ViewState.SENTENCE, targetLang: targetLang.code, text }
+      : { view: ViewState.RESULT, targetLang: targetLang.code, term: text });
+  };
+
+  const handlePhotoLookup = (term: string, photo: string) => {
+    setPhotoFile(null);
+    setPhotoContext({ term, photo });
+    setQuery(term);
+    navigate({ view: ViewState.RESULT, targetLang: targetLang.code, term });
+  };
+
+  const handleRefresh = () => {
+    if (!currentResult) return;
+    runLookup(currentResult.term, targetLang, true);
+  };
+
   const toggleSave = () => {
     if (!currentResult) return;
-    const exists = notebook.find(n => n.term === currentResult.term);
+    const exists = findSaved(currentResult.term);
     if (exists) {
-      setNotebook(notebook.filter(n => n.term !== currentResult.term));
+      setNotebook(notebook.filter(n => n.id !== exists.id));
+      deleteEntry(exists.id).catch(error => console.error("Failed to delete entry:", error));
     } else {
-      setNotebook([currentResult, ...notebook]);
+      const entry = { ...currentResult, savedAt: Date.now() };
+      setNotebook([entry, ...notebook]);
+      persistEntry(entry);
+      recordEvent('save', entry);
     }
   };
 
-  const handleChatSend = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatInput.trim() || !chatSession) return;
+  const handleSaveWords = (entries: DictionaryEntry[]) => {
+    const added = entries
+      .filter(entry => !findSaved(entry.term))
+      .map(entry => ({ ...entry, savedAt: Date.now() }));
+    if (added.length === 0) return;
+    setNotebook(prev => [...added, ...prev.filter(n => !added.some(a => a.id === n.id))]);
+    added.forEach(entry => {
+      persistEntry(entry);
+      recordEvent('save', entry);
+    });
+  };
 
-    const userMsg = chatInput;
-    setChatInput('');
-    setChatHistory(prev => [...prev, { role: 'user', text: userMsg }]);
-    setIsChatLoading(true);
+  const handleGrade = (entry: DictionaryEntry, grade: ReviewGrade) => {
+    updateEntry({ ...entry, review: scheduleReview(entry.review, grade, Date.now()) });
+    recordEvent('review', entry, { grade, wasLearned: isLearned(entry.review) });
+  };
 
-    try {
-      const result = await chatSession.sendMessage({ message: userMsg });
-      setChatHistory(prev => [...prev, { role: 'model', text: result.text || "I didn't catch that." }]);
-    } catch (error) {
-      console.error(error);
-    } finally {
-      setIsChatLoading(false);
-    }
+  // Saved words are persisted; an unsaved result holds changes until it is saved
+  const updateResult = (updated: DictionaryEntry) => {
+    if (notebook.some(n => n.id === updated.id)) updateEntry(updated);
+    else setCurrentResult(prev => prev?.id === updated.id ? updated : prev);
   };
 
-  const handleGenerateStory = async () => {
-    if (notebook.length < 3) {
-      alert("Add at least 3 words to your notebook to create a story!");
-      return;
-    }
+  // Scoring takes a while, and the card may be graded or annotated meanwhile,
+  // so the attempt is applied to whatever the entry looks like by then
+  const latestEntriesRef = useRef({ notebook, currentResult });
+  latestEntriesRef.current = { notebook, currentResult };
+
+  const handleAttempt = (entryId: string, assessment: PronunciationAssessment) => {
+    const latest = latestEntriesRef.current;
+    const saved = latest.notebook.find(n => n.id === entryId);
+    if (saved) updateEntry(appendAttempt(saved, assessment));
+    else setCurrentResult(prev => prev?.id === entryId ? appendAttempt(prev, assessment) : prev);
+  };
+
+  const handlePin = (text: string) => {
+    if (!currentResult || currentResult.notes?.some(note => note.text === text)) return;
+    updateResult({ ...currentResult, notes: [...(currentResult.notes || []), { text, pinnedAt: Date.now() }] });
+  };
+
+  const handleUnpin = (pinnedAt: number) => {
+    if (!currentResult) return;
+    updateResult({ ...currentResult, notes: currentResult.notes?.filter(note => note.pinnedAt !== pinnedAt) });
+  };
+
+  const handleQuizAnswer = (entryId: string, correct: boolean) => {
+    const entry = notebook.find(n => n.id === entryId);
+    if (!entry) return;
+    updateEntry({ ...entry, quiz: recordQuizAnswer(entry.quiz, correct, Date.now()) });
+    recordEvent('quiz', entry, { correct });
+  };
+
+  const handleImport = (imported: ImportResult, strategy: ConflictStrategy) => {
+    const merged = mergeEntries(notebook, imported.entries, strategy);
+    setNotebook(merged.notebook);
+    merged.changed.forEach(entry => persistEntry(entry, "Failed to save imported entry:"));
+    return `Added ${merged.added}, updated ${merged.updated}, skipped ${merged.skipped}.`;
+  };
+
+  const handleChatSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!chatInput.trim() || !chatSession || isChatReplying) return;
+    sendChatMessage(chatInput);
+    setChatInput('');
+  };
+
+  const handleGenerateStory = async (options: StoryOptions) => {
     setIsGeneratingStory(true);
-    setView(ViewState.STORY);
+    setError(null);
+    setStoryDraft(null);
     try {
-      const result = await generateStoryFromNotes(notebook, nativeLang.name, targetLang.name);
-      setStory(result);
+      const words = pickStoryWords(pairNotebook, options.length, Date.now());
+      const result = await generateStoryFromNotes(words, nativeLang, targetLang, options, profile, (partial) => {
+        if (partial.title || partial.sentences.length > 0) setStoryDraft(partial);
+      });
+      const saved: SavedStory = {
+        ...result,
+        id: Date.now().toString(),
+        createdAt: Date.now(),
+        nativeLang: nativeLang.code,
+        targetLang: targetLang.code,
+        options,
+      };
+      setSavedStories(prev => [saved, ...prev]);
+      saveStory(saved).catch(error => console.error("Failed to save story:", error));
+      // Open the finished story, unless the user has moved on
+      const route = getCurrentRoute();
+      if (route.view === ViewState.STORY && !route.storyId) navigate({ view: ViewState.STORY, storyId: saved.id });
     } catch (error) {
        console.error(error);
+       setError(toAIError(error));
     } finally {
       setIsGeneratingStory(false);
+      setStoryDraft(null);
     }
   };
 
+  // Synthesize the term and examples up front so speaker taps play instantly
+  useEffect(() => {
+    if (view === ViewState.RESULT && currentResult && !isResultStreaming) {
+      preloadAudio([currentResult.term, ...currentResult.examples.map(ex => ex.target)], findLanguage(currentResult.targetLang));
+    }
+  }, [view, currentResult, isResultStreaming]);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [chatHistory, isChatOpen]);
@@ -116,6 +530,20 @@ const App: React.FC = () => {
 
   // --- Renderers ---
 
+  const dueCards = getDueCards(pairNotebook, Date.now());
+  const nextDueAt = getNextDueAt(pairNotebook);
+  const savedResult = currentResult ? findSaved(currentResult.term) : undefined;
+  const pairStories = savedStories.filter(s => s.nativeLang === nativeLang.code && s.targetLang === targetLang.code);
+  const pairEvents = events.filter(e => e.nativeLang === nativeLang.code && e.targetLang === targetLang.code);
+  const openStory = storyId ? savedStories.find(s => s.id === storyId) : undefined;
+  const savedPairs = Array.from(
+    new Map(notebook.map(n => [`${n.nativeLang}|${n.targetLang}`, { nativeLang: n.nativeLang, targetLang: n.targetLang }])).values()
+  );
+
+  if (!isHydrated) {
+    return <div className="min-h-screen bg-indigo-600" />;
+  }
+
   if (view === ViewState.ONBOARDING) {
     return (
       <div className="min-h-screen bg-indigo-600 flex flex-col items-center justify-center p-6 text-white text-center">
@@ -123,40 +551,19 @@ const App: React.FC = () => {
         <p className="text-indigo-100 text-lg mb-8 max-w-md">The most fun way to learn new words instantly.</p>
         
         <div className="bg-white text-gray-800 p-8 rounded-3xl shadow-2xl w-full max-w-md space-y-6">
-          <div>
-            <label className="block text-sm font-bold mb-2 text-indigo-900 uppercase tracking-wide">I speak</label>
-            <div className="grid grid-cols-2 gap-2">
-              {SUPPORTED_LANGUAGES.slice(0, 4).map(lang => (
-                 <button 
-                  key={lang.code}
-                  onClick={() => setNativeLang(lang)}
-                  className={`p-3 rounded-xl border-2 transition-all ${nativeLang.code === lang.code ? 'border-indigo-500 bg-indigo-50 text-indigo-700 font-bold' : 'border-gray-100 hover:border-gray-200'}`}
-                 >
-                   <span className="mr-2">{lang.flag}</span> {lang.name}
-                 </button>
-              ))}
-            </div>
-             {/* Simple dropdown for rest if needed, kept simple for demo */}
-          </div>
+          <LanguagePicker label="I speak" value={nativeLang} onChange={setNativeLang} accent="indigo" />
+          <LanguagePicker label="I want to learn" value={targetLang} onChange={setTargetLang} disabledCode={nativeLang.code} accent="pink" />
 
-          <div>
-            <label className="block text-sm font-bold mb-2 text-indigo-900 uppercase tracking-wide">I want to learn</label>
-            <div className="grid grid-cols-2 gap-2">
-               {SUPPORTED_LANGUAGES.slice(0, 4).map(lang => (
-                 <button 
-                  key={lang.code}
-                  onClick={() => setTargetLang(lang)}
-                  className={`p-3 rounded-xl border-2 transition-all ${targetLang.code === lang.code ? 'border-pink-500 bg-pink-50 text-pink-700 font-bold' : 'border-gray-100 hover:border-gray-200'}`}
-                 >
-                   <span className="mr-2">{lang.flag}</span> {lang.name}
-                 </button>
-              ))}
-            </div>
-          </div>
+          {nativeLang.code === targetLang.code && (
+            <p className="text-sm font-bold text-red-600">Pick a language to learn that's different from the one you speak.</p>
+          )}
+
+          <LearnerProfileForm profile={profile} targetLanguage={targetLang} onChange={setProfile} />
 
           <button 
             onClick={handleStart}
-            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-4 rounded-2xl text-xl shadow-lg transform transition hover:scale-[1.02] active:scale-95"
+            disabled={nativeLang.code === targetLang.code}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-4 rounded-2xl text-xl shadow-lg transform transition hover:scale-[1.02] active:scale-95 disabled:opacity-50 disabled:hover:scale-100"
           >
             Let's Go! 🚀
           </button>
@@ -171,11 +578,19 @@ const App: React.FC = () => {
       {/* Sticky Header / Search */}
       <div className="sticky top-0 z-40 bg-white/90 backdrop-blur-md border-b border-gray-100 p-4 shadow-sm">
         <div className="flex items-center justify-between mb-3">
-             <div className="flex items-center space-x-1">
+             <button onClick={() => navigate({ view: ViewState.SETTINGS })} title="Change languages" className="flex items-center space-x-1">
                  <span className="text-xl">{targetLang.flag}</span>
                  <span className="font-bold text-gray-700">{targetLang.name}</span>
+             </button>
+             <div className="flex items-center gap-3">
+                 {!isOnline && (
+                   <span title="Your notebook and flashcards still work" className="text-xs font-bold text-amber-700 bg-amber-100 px-2 py-1 rounded-full">Offline</span>
+                 )}
+                 <h1 className="text-lg font-black text-indigo-600 tracking-tight">LingoPop</h1>
+                 <button onClick={() => navigate({ view: ViewState.SETTINGS })} title="Settings" className={view === ViewState.SETTINGS ? 'text-indigo-600' : 'text-gray-400'}>
+                     <SettingsIcon className="w-5 h-5" />
+                 </button>
              </div>
-             <h1 className="text-lg font-black text-indigo-600 tracking-tight">LingoPop</h1>
         </div>
         <form onSubmit={handleSearch} className="relative">
           <input
@@ -183,16 +598,39 @@ const App: React.FC = () => {
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             placeholder="Type a word or sentence..."
-            className="w-full pl-12 pr-4 py-4 bg-gray-100 rounded-2xl text-lg font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all shadow-inner"
+            className="w-full pl-12 pr-14 py-4 bg-gray-100 rounded-2xl text-lg font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all shadow-inner"
           />
           <SearchIcon className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 w-6 h-6" />
+          <label title="Look up from a photo" className="absolute right-3 top-1/2 transform -translate-y-1/2 p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-white cursor-pointer">
+            <CameraIcon className="w-6 h-6" />
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = ''; // Allow picking the same photo again
+                if (file) setPhotoFile(file);
+              }}
+            />
+          </label>
         </form>
       </div>
 
       {/* Main Content Area */}
       <div className="p-4">
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-100 text-red-800 rounded-2xl p-4 flex items-start justify-between gap-3 animate-in fade-in">
+            <div>
+              <p className="font-bold">{describeError(error).title}</p>
+              <p className="text-sm text-red-700">{describeError(error).message}</p>
+            </div>
+            <button onClick={() => setError(null)} className="text-red-400 font-bold text-sm bg-red-100 px-3 py-1 rounded-full">Dismiss</button>
+          </div>
+        )}
         
-        {isLoading && (
+        {isLoading && view === ViewState.RESULT && (
           <div className="flex flex-col items-center justify-center mt-20 space-y-4 animate-pulse">
             <div className="w-20 h-20 bg-indigo-200 rounded-full"></div>
             <div className="h-4 bg-gray-200 rounded w-3/4"></div>
@@ -203,39 +641,94 @@ const App: React.FC = () => {
 
         {view === ViewState.HOME && !isLoading && (
             <div className="mt-12 text-center text-gray-400">
-                <div className="bg-white p-6 rounded-3xl shadow-sm inline-block mb-4">
-                    <span className="text-4xl">👋</span>
-                </div>
-                <p>Search for anything to start learning!</p>
+                <PendingLookups
+                  items={offlineQueue.pendingLookups.filter(p => p.nativeLang === nativeLang.code)}
+                  isOnline={isOnline}
+                  onOpen={handleOpenPending}
+                  onRetry={offlineQueue.retry}
+                  onDismiss={offlineQueue.dismiss}
+                />
+                {wordOfTheDay && wordOfTheDay.nativeLang === nativeLang.code && wordOfTheDay.targetLang === targetLang.code ? (
+                    <WordOfTheDay
+                      entry={wordOfTheDay}
+                      isSaved={!!findSaved(wordOfTheDay.term)}
+                      targetLanguage={targetLang}
+                      onOpen={() => navigate({ view: ViewState.RESULT, targetLang: targetLang.code, term: wordOfTheDay.term })}
+                      onSave={() => handleSaveWords([wordOfTheDay])}
+                    />
+                ) : (
+                    <>
+                        <div className="bg-white p-6 rounded-3xl shadow-sm inline-block mb-4">
+                            <span className="text-4xl">👋</span>
+                        </div>
+                        <p>Search for anything to start learning!</p>
+                    </>
+                )}
             </div>
         )}
 
+        {view === ViewState.SENTENCE && sentence && (sentence.analysis || !error) && (
+            <SentenceBreakdown
+              key={sentence.key}
+              sentence={sentence.text}
+              analysis={sentence.analysis}
+              isStreaming={isSentenceStreaming}
+              nativeLanguage={nativeLang}
+              targetLanguage={targetLang}
+              isSaved={(lemma) => !!findSaved(lemma)}
+              onSaveToken={handleSaveToken}
+              onOpenToken={(token) => navigate({ view: ViewState.RESULT, targetLang: targetLang.code, term: token.lemma })}
+              onLookupAsWord={() => navigate({ view: ViewState.RESULT, targetLang: targetLang.code, term: sentence.text })}
+            />
+        )}
+
         {view === ViewState.RESULT && currentResult && !isLoading && (
           <div className="space-y-6 pb-20 animate-in fade-in slide-in-from-bottom-8 duration-500">
             {/* Main Word Card */}
             <div className="bg-white rounded-3xl shadow-xl overflow-hidden">
                <div className="relative h-48 bg-gray-50 p-4">
-                  <img 
-                    src={currentResult.imageUrl || MOCK_IMAGE_PLACEHOLDER} 
-                    alt={currentResult.term} 
-                    className="w-full h-full object-contain"
-                  />
+                  {isImagePending && !currentResult.imageUrl ? (
+                    <div className="w-full h-full rounded-2xl bg-indigo-100 animate-pulse flex items-center justify-center text-indigo-300 font-bold text-sm uppercase tracking-widest">
+                      Drawing...
+                    </div>
+                  ) : (
+                    <img 
+                      src={currentResult.imageUrl || MOCK_IMAGE_PLACEHOLDER} 
+                      alt={currentResult.term} 
+                      className="w-full h-full object-contain"
+                    />
+                  )}
+                  <button 
+                    onClick={handleRefresh}
+                    disabled={isResultStreaming || isImagePending}
+                    title="Regenerate"
+                    className="absolute top-4 left-4 bg-white/90 backdrop-blur p-3 rounded-full shadow-lg text-gray-500 active:scale-90 transition-transform border border-gray-100 disabled:opacity-50"
+                  >
+                    <RefreshIcon className="w-5 h-5" />
+                  </button>
                   <button 
                     onClick={toggleSave}
-                    className="absolute top-4 right-4 bg-white/90 backdrop-blur p-3 rounded-full shadow-lg text-indigo-600 active:scale-90 transition-transform border border-gray-100"
+                    disabled={isResultStreaming || isImagePending}
+                    className="absolute top-4 right-4 bg-white/90 backdrop-blur p-3 rounded-full shadow-lg text-indigo-600 active:scale-90 transition-transform border border-gray-100 disabled:opacity-50"
                   >
-                    <SaveIcon filled={!!notebook.find(n => n.term === currentResult.term)} />
+                    <SaveIcon filled={!!savedResult} />
                   </button>
                </div>
                
                <div className="p-6">
                   <div className="flex items-center justify-between mb-2">
-                    <h2 className="text-4xl font-black text-gray-900">{currentResult.term}</h2>
-                    <button onClick={() => playAudio(currentResult.term)} className="p-3 bg-indigo-100 rounded-full text-indigo-600 hover:bg-indigo-200 active:scale-95 transition-colors">
+                    <h2 {...textAttributes(targetLang)} className="text-4xl font-black text-gray-900">{currentResult.term}</h2>
+                    <button onClick={() => playAudio(currentResult.term, targetLang)} className="p-3 bg-indigo-100 rounded-full text-indigo-600 hover:bg-indigo-200 active:scale-95 transition-colors">
                         <SpeakerIcon />
                     </button>
                   </div>
                   <p className="text-indigo-500 font-mono text-lg mb-4">{currentResult.phonetic}</p>
+                  {(currentResult.partOfSpeech || currentResult.gender) && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {currentResult.partOfSpeech && <span className="px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider bg-indigo-50 text-indigo-600">{currentResult.partOfSpeech}</span>}
+                      {currentResult.gender && <span className="px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider bg-pink-50 text-pink-600">{currentResult.gender}</span>}
+                    </div>
+                  )}
                   <p className="text-xl text-gray-700 leading-relaxed font-medium">{currentResult.definition}</p>
                </div>
             </div>
@@ -255,8 +748,8 @@ const App: React.FC = () => {
                 {currentResult.examples.map((ex, idx) => (
                     <div key={idx} className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
                         <div className="flex justify-between items-start mb-2">
-                            <p className="text-lg font-semibold text-gray-800">{ex.target}</p>
-                            <button onClick={() => playAudio(ex.target)} className="text-gray-400 hover:text-indigo-500">
+                            <p {...textAttributes(targetLang)} className="text-lg font-semibold text-gray-800">{ex.target}</p>
+                            <button onClick={() => playAudio(ex.target, targetLang)} className="text-gray-400 hover:text-indigo-500">
                                 <SpeakerIcon className="w-5 h-5" />
                             </button>
                         </div>
@@ -264,107 +757,195 @@ const App: React.FC = () => {
                     </div>
                 ))}
             </div>
+
+            <EntryDetails
+              key={currentResult.id}
+              entry={currentResult}
+              nativeLanguage={nativeLang}
+              targetLanguage={targetLang}
+              onLookup={(term) => navigate({ view: ViewState.RESULT, targetLang: targetLang.code, term })}
+            />
+
+            {/* The photo this word was found in */}
+            {!isResultStreaming && (currentResult.sourceImage || (photoContext && normalizeTerm(photoContext.term) === normalizeTerm(currentResult.term))) && (
+                <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-3">
+                    <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider">From your photo</h3>
+                    <img src={currentResult.sourceImage || photoContext!.photo} alt="" className="w-full max-h-56 object-contain rounded-2xl bg-gray-100" />
+                    {currentResult.sourceImage ? (
+                        <button onClick={() => updateResult({ ...currentResult, sourceImage: undefined })} className="text-sm font-bold text-gray-400">Remove photo</button>
+                    ) : (
+                        <button onClick={() => updateResult({ ...currentResult, sourceImage: photoContext!.photo })} className="text-sm font-bold text-indigo-600">Keep photo with this word</button>
+                    )}
+                </div>
+            )}
+
+            {/* Pinned tutor answers */}
+            {currentResult.notes && currentResult.notes.length > 0 && (
+                <div className="space-y-3">
+                    <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider ml-2">My Notes</h3>
+                    {currentResult.notes.map(note => (
+                        <div key={note.pinnedAt} className="bg-indigo-50 p-4 rounded-2xl border border-indigo-100 flex items-start justify-between gap-3">
+                            <p className="text-sm text-indigo-900 leading-relaxed whitespace-pre-line">{note.text}</p>
+                            <button onClick={() => handleUnpin(note.pinnedAt)} title="Remove note" className="text-indigo-300 hover:text-indigo-600 font-bold">×</button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {!isResultStreaming && (
+                <PronunciationPractice
+                  entry={currentResult}
+                  nativeLanguage={nativeLang}
+                  targetLanguage={targetLang}
+                  onAttempt={(assessment) => handleAttempt(currentResult.id, assessment)}
+                />
+            )}
+
+            {/* Organisation (saved words only) */}
+            {savedResult && (
+                <TagEditor
+                  tags={savedResult.tags}
+                  folder={savedResult.folder}
+                  knownTags={Array.from(new Set(pairNotebook.flatMap(n => n.tags))).sort()}
+                  knownFolders={Array.from(new Set(pairNotebook.map(n => n.folder).filter((f): f is string => !!f))).sort()}
+                  onChange={(tags, folder) => updateEntry({ ...savedResult, tags, folder })}
+                />
+            )}
             
             <div className="h-12"></div>
           </div>
         )}
 
         {view === ViewState.NOTEBOOK && (
-           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4">
-              <div className="flex items-center justify-between">
-                <h2 className="text-2xl font-black text-gray-800">My Notebook</h2>
-                <div className="bg-indigo-100 text-indigo-700 font-bold px-3 py-1 rounded-full text-sm">
-                    {notebook.length} words
-                </div>
-              </div>
-              
-              <div className="grid gap-3">
-                 {notebook.length === 0 ? (
-                     <div className="text-center py-12 text-gray-400 bg-white rounded-3xl border-2 border-dashed border-gray-200">
-                         <BookIcon className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                         <p>No words saved yet!</p>
-                     </div>
-                 ) : (
-                     notebook.map(entry => (
-                        <div key={entry.id} onClick={() => { setCurrentResult(entry); setView(ViewState.RESULT); }} className="bg-white p-4 rounded-2xl shadow-sm flex items-center gap-4 cursor-pointer hover:shadow-md transition-shadow">
-                             <img src={entry.imageUrl || MOCK_IMAGE_PLACEHOLDER} className="w-16 h-16 rounded-xl object-cover bg-gray-100" />
-                             <div>
-                                 <h4 className="font-bold text-lg">{entry.term}</h4>
-                                 <p className="text-sm text-gray-500 line-clamp-1">{entry.definition}</p>
-                             </div>
-                        </div>
-                     ))
-                 )}
-              </div>
-
-              {notebook.length > 0 && (
-                  <div className="grid grid-cols-2 gap-3 mt-6">
-                      <button 
-                        onClick={() => setView(ViewState.FLASHCARDS)}
-                        className="bg-indigo-600 text-white p-4 rounded-2xl font-bold flex flex-col items-center justify-center gap-2 shadow-lg active:scale-95 transition-transform"
-                      >
-                          <BrainIcon className="w-8 h-8"/>
-                          Study Mode
-                      </button>
-                      <button 
-                        onClick={handleGenerateStory}
-                        className="bg-pink-500 text-white p-4 rounded-2xl font-bold flex flex-col items-center justify-center gap-2 shadow-lg active:scale-95 transition-transform"
-                      >
-                          <SparklesIcon className="w-8 h-8"/>
-                          Story Time
-                      </button>
-                  </div>
-              )}
-           </div>
+           <NotebookView
+             entries={pairNotebook}
+             pair={{ nativeLang: nativeLang.code, targetLang: targetLang.code }}
+             pairs={savedPairs}
+             searchIndex={searchIndexRef.current}
+             onSwitchPair={handleSwitchPair}
+             onOpen={(entry) => navigate({ view: ViewState.RESULT, targetLang: entry.targetLang, term: entry.term })}
+             onStudy={() => navigate({ view: ViewState.FLASHCARDS })}
+             onQuiz={() => navigate({ view: ViewState.QUIZ })}
+             onStory={() => navigate({ view: ViewState.STORY })}
+             onImport={handleImport}
+           />
         )}
 
         {view === ViewState.STORY && (
-            <div className="space-y-6">
-                <button onClick={() => setView(ViewState.NOTEBOOK)} className="flex items-center text-gray-500 font-bold text-sm">
-                    <ChevronLeftIcon className="w-4 h-4 mr-1"/> Back
-                </button>
-                
-                {isGeneratingStory ? (
-                    <div className="text-center py-20 animate-pulse">
-                        <div className="text-6xl mb-4">🧙‍♂️</div>
-                        <h3 className="text-xl font-bold text-gray-800">Weaving a story...</h3>
-                        <p className="text-gray-500">Combining your vocabulary into magic.</p>
-                    </div>
-                ) : story && (
-                    <div className="bg-white p-8 rounded-3xl shadow-xl border-t-8 border-pink-500">
-                        <h2 className="text-3xl font-black mb-6 text-gray-900">{story.title}</h2>
-                        <div className="prose prose-lg text-gray-700 leading-loose">
-                            {story.content}
-                        </div>
-                        <button onClick={() => playAudio(story.content)} className="mt-8 flex items-center gap-2 text-pink-600 font-bold bg-pink-50 px-4 py-2 rounded-full">
-                            <SpeakerIcon className="w-5 h-5"/> Read to me
-                        </button>
-                    </div>
-                )}
-            </div>
+            storyId ? (
+                openStory ? (
+                    <StoryReader
+                      key={openStory.id}
+                      story={openStory}
+                      isGenerating={false}
+                      entries={pairNotebook}
+                      nativeLanguage={nativeLang}
+                      targetLanguage={targetLang}
+                      onOpenWord={(entry) => navigate({ view: ViewState.RESULT, targetLang: entry.targetLang, term: entry.term })}
+                      onBack={() => navigate({ view: ViewState.STORY })}
+                    />
+                ) : (
+                    <p className="text-center py-12 text-gray-400">This story isn't saved on this device.</p>
+                )
+            ) : isGeneratingStory ? (
+                <StoryReader
+                  story={storyDraft}
+                  isGenerating
+                  entries={pairNotebook}
+                  nativeLanguage={nativeLang}
+                  targetLanguage={targetLang}
+                  onOpenWord={(entry) => navigate({ view: ViewState.RESULT, targetLang: entry.targetLang, term: entry.term })}
+                  onBack={() => navigate({ view: ViewState.NOTEBOOK })}
+                />
+            ) : (
+                <StoryLibrary
+                  stories={pairStories}
+                  wordCount={pairNotebook.length}
+                  targetLanguage={targetLang}
+                  level={levelFor(profile, targetLang.code)}
+                  onGenerate={handleGenerateStory}
+                  onOpen={(saved) => navigate({ view: ViewState.STORY, storyId: saved.id })}
+                  onBack={() => navigate({ view: ViewState.NOTEBOOK })}
+                />
+            )
+        )}
+
+        {view === ViewState.STATS && (
+           <StatsView
+             events={pairEvents}
+             entries={pairNotebook}
+             targetLanguage={targetLang}
+             onExport={() => exportActivityLog(events)}
+             onBack={() => navigate({ view: ViewState.HOME })}
+           />
+        )}
+
+        {view === ViewState.SETTINGS && (
+           <SettingsView
+             nativeLang={nativeLang}
+             targetLang={targetLang}
+             profile={profile}
+             onSave={handleSaveSettings}
+             remindersEnabled={remindersEnabled}
+             onToggleReminders={toggleReminders}
+             onBack={() => navigate({ view: ViewState.HOME })}
+           />
+        )}
+
+        {view === ViewState.READER && (
+           <ReaderView
+             text={readerText}
+             onTextChange={setReaderText}
+             entries={pairNotebook}
+             targetLanguage={targetLang}
+             resolve={resolveTerm}
+             onSave={handleSaveWords}
+             onOpen={(term) => navigate({ view: ViewState.RESULT, targetLang: targetLang.code, term })}
+           />
+        )}
+
+        {view === ViewState.QUIZ && (
+           <QuizView
+             entries={pairNotebook}
+             targetLanguage={targetLang}
+             onAnswer={handleQuizAnswer}
+             onExit={() => navigate({ view: ViewState.NOTEBOOK })}
+           />
         )}
 
         {view === ViewState.FLASHCARDS && (
-            <div className="h-[80vh] flex flex-col">
+            <div className="min-h-[80vh] flex flex-col">
                  <div className="flex items-center justify-between mb-6">
-                    <button onClick={() => setView(ViewState.NOTEBOOK)} className="p-2 bg-white rounded-full shadow text-gray-600">
+                    <button onClick={() => navigate({ view: ViewState.NOTEBOOK })} className="p-2 bg-white rounded-full shadow text-gray-600">
                         <ChevronLeftIcon />
                     </button>
                     <span className="font-bold text-gray-500">Flashcards</span>
-                    <div className="w-10"></div>
+                    <div className="bg-indigo-100 text-indigo-700 font-bold px-3 py-1 rounded-full text-sm">
+                        {dueCards.length} due
+                    </div>
                  </div>
                  
                  <div className="flex-grow flex items-center justify-center">
-                    {notebook.length > 0 ? (
-                        /* Simple carousel logic for demo - just showing random or first */
-                        <div className="w-full">
-                           <Flashcard entry={notebook[0]} />
-                           <p className="text-center text-gray-400 mt-8 text-sm">
-                               (In a full app, swipe for next card)
-                           </p>
+                    {dueCards.length > 0 ? (
+                        <div className="w-full space-y-4">
+                           {/* Keyed by id so the card resets its flip state when the next one comes up */}
+                           <Flashcard key={dueCards[0].id} entry={dueCards[0]} onGrade={(grade) => handleGrade(dueCards[0], grade)} />
+                           <PronunciationPractice
+                             key={`practice-${dueCards[0].id}`}
+                             entry={dueCards[0]}
+                             nativeLanguage={nativeLang}
+                             targetLanguage={targetLang}
+                             onAttempt={(assessment) => handleAttempt(dueCards[0].id, assessment)}
+                           />
                         </div>
                     ) : (
-                        <p>No cards available.</p>
+                        <div className="text-center text-gray-400">
+                            <div className="text-5xl mb-4">🎉</div>
+                            <p className="font-bold text-gray-600">All caught up!</p>
+                            {nextDueAt && (
+                                <p className="text-sm mt-1">Next review in {formatInterval(Math.max(0, nextDueAt - Date.now()))}</p>
+                            )}
+                        </div>
                     )}
                  </div>
             </div>
@@ -372,6 +953,19 @@ const App: React.FC = () => {
 
       </div>
 
+      <AudioControls />
+
+      {/* Keyed by language so switching pairs reads the photo again in the new one */}
+      {photoFile && (
+          <PhotoLookup
+            key={targetLang.code}
+            file={photoFile}
+            targetLanguage={targetLang}
+            onLookup={handlePhotoLookup}
+            onClose={() => setPhotoFile(null)}
+          />
+      )}
+
       {/* Floating Chat Button (Only on Result View) */}
       {view === ViewState.RESULT && !isChatOpen && (
           <button 
@@ -395,17 +989,31 @@ const App: React.FC = () => {
                   </div>
                   
                   <div className="flex-grow overflow-y-auto p-4 space-y-4">
-                      {chatHistory.map((msg, i) => (
-                          <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                              <div className={`max-w-[80%] p-4 rounded-2xl text-sm leading-relaxed ${
-                                  msg.role === 'user' 
-                                  ? 'bg-indigo-600 text-white rounded-br-none' 
-                                  : 'bg-gray-100 text-gray-800 rounded-bl-none'
-                              }`}>
-                                  {msg.text}
+                      {chatHistory.map((msg, i) => {
+                          // Tutor answers (not the greeting) can be kept as notes on the word
+                          const canPin = msg.role === 'model' && i > 0 && !msg.failed;
+                          const isPinned = canPin && !!currentResult?.notes?.some(note => note.text === msg.text);
+                          return (
+                              <div key={i} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                  <div className={`max-w-[80%] p-4 rounded-2xl text-sm leading-relaxed ${
+                                      msg.role === 'user' 
+                                      ? 'bg-indigo-600 text-white rounded-br-none' 
+                                      : 'bg-gray-100 text-gray-800 rounded-bl-none'
+                                  }`}>
+                                      {msg.text}
+                                  </div>
+                                  {canPin && !(isChatReplying && i === chatHistory.length - 1) && (
+                                      <button
+                                        onClick={() => handlePin(msg.text)}
+                                        disabled={isPinned}
+                                        className="mt-1 text-xs font-bold text-indigo-500 disabled:text-gray-400"
+                                      >
+                                          {isPinned ? '📌 Pinned' : '📌 Pin to notes'}
+                                      </button>
+                                  )}
                               </div>
-                          </div>
-                      ))}
+                          );
+                      })}
                       {isChatLoading && (
                           <div className="flex justify-start">
                               <div className="bg-gray-100 p-4 rounded-2xl rounded-bl-none">
@@ -428,7 +1036,7 @@ const App: React.FC = () => {
                             className="flex-grow bg-gray-100 rounded-full px-4 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                             placeholder="Ask about this word..."
                           />
-                          <button type="submit" disabled={!chatInput.trim()} className="bg-indigo-600 text-white p-3 rounded-full disabled:opacity-50">
+                          <button type="submit" disabled={!chatInput.trim() || !chatSession || isChatReplying} className="bg-indigo-600 text-white p-3 rounded-full disabled:opacity-50">
                               <ChevronLeftIcon className="w-6 h-6 rotate-180" />
                           </button>
                       </div>
@@ -441,19 +1049,33 @@ const App: React.FC = () => {
       {view !== ViewState.ONBOARDING && (
           <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-100 py-3 px-6 flex justify-around items-center z-40 max-w-md mx-auto">
               <button 
-                onClick={() => setView(ViewState.HOME)}
-                className={`flex flex-col items-center gap-1 ${view === ViewState.HOME || view === ViewState.RESULT ? 'text-indigo-600' : 'text-gray-400'}`}
+                onClick={() => navigate({ view: ViewState.HOME })}
+                className={`flex flex-col items-center gap-1 ${view === ViewState.HOME || view === ViewState.RESULT || view === ViewState.SENTENCE ? 'text-indigo-600' : 'text-gray-400'}`}
               >
                   <SearchIcon className="w-6 h-6" />
                   <span className="text-xs font-bold">Search</span>
               </button>
               <button 
-                onClick={() => setView(ViewState.NOTEBOOK)}
-                className={`flex flex-col items-center gap-1 ${view === ViewState.NOTEBOOK || view === ViewState.FLASHCARDS || view === ViewState.STORY ? 'text-indigo-600' : 'text-gray-400'}`}
+                onClick={() => navigate({ view: ViewState.READER })}
+                className={`flex flex-col items-center gap-1 ${view === ViewState.READER ? 'text-indigo-600' : 'text-gray-400'}`}
+              >
+                  <BookOpenIcon className="w-6 h-6" />
+                  <span className="text-xs font-bold">Read</span>
+              </button>
+              <button 
+                onClick={() => navigate({ view: ViewState.NOTEBOOK })}
+                className={`flex flex-col items-center gap-1 ${view === ViewState.NOTEBOOK || view === ViewState.FLASHCARDS || view === ViewState.QUIZ || view === ViewState.STORY ? 'text-indigo-600' : 'text-gray-400'}`}
               >
                   <BookIcon className="w-6 h-6" />
                   <span className="text-xs font-bold">Notebook</span>
               </button>
+              <button 
+                onClick={() => navigate({ view: ViewState.STATS })}
+                className={`flex flex-col items-center gap-1 ${view === ViewState.STATS ? 'text-indigo-600' : 'text-gray-400'}`}
+              >
+                  <ChartIcon className="w-6 h-6" />
+                  <span className="text-xs font-bold">Progress</span>
+              </button>
           </div>
       )}
     </div>
@@ -0,0 +1,35 @@
+import React, { useSyncExternalStore } from 'react';
+import { getPlaybackState, subscribeToPlayback, stopAudio, replayAudio, setPlaybackRate } from '../services/audioService';
+import { StopIcon, ReplayIcon, SpeakerIcon } from './Icons';
+
+const RATES = [0.75, 1, 1.25];
+
+// Floating transport for whatever was last played via playAudio
+export const AudioControls: React.FC = () => {
+  const playback = useSyncExternalStore(subscribeToPlayback, getPlaybackState);
+
+  if (!playback.text) return null;
+
+  const nextRate = RATES[(RATES.indexOf(playback.rate) + 1) % RATES.length] ?? 1;
+
+  return (
+    <div className="fixed bottom-24 left-4 z-40 bg-white rounded-full shadow-xl border border-gray-100 flex items-center gap-1 p-1">
+      {playback.status === 'idle' ? (
+        <button onClick={replayAudio} title="Replay" className="p-2 rounded-full text-indigo-600 hover:bg-indigo-50">
+          <ReplayIcon className="w-5 h-5" />
+        </button>
+      ) : (
+        <button onClick={stopAudio} title="Stop" className="p-2 rounded-full text-indigo-600 hover:bg-indigo-50">
+          {playback.status === 'loading' ? <SpeakerIcon className="w-5 h-5 animate-pulse" /> : <StopIcon className="w-5 h-5" />}
+        </button>
+      )}
+      <button
+        onClick={() => setPlaybackRate(nextRate)}
+        title="Playback speed"
+        className="px-3 py-1 rounded-full text-xs font-bold text-gray-600 bg-gray-100 hover:bg-gray-200"
+      >
+        {playback.rate}x
+      </button>
+    </div>
+  );
+};
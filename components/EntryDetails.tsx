@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { DictionaryEntry, Language } from '../types';
+import { textAttributes } from '../constants';
+import { playAudio } from '../services/audioService';
+import { SpeakerIcon } from './Icons';
+
+interface EntryDetailsProps {
+  entry: DictionaryEntry;
+  nativeLanguage: Language;
+  targetLanguage: Language;
+  onLookup: (term: string) => void; // Opens a related word
+}
+
+const VISIBLE_TABLES = 1; // More tables are behind "Show all forms"
+
+// The grammar half of a RESULT: numbered senses, inflection tables and
+// related words. Renders nothing for entries that have none of these,
+// including everything saved before they were added.
+export const EntryDetails: React.FC<EntryDetailsProps> = ({ entry, nativeLanguage, targetLanguage, onLookup }) => {
+  const [showAllForms, setShowAllForms] = useState(false);
+
+  const tables = entry.inflections || [];
+  const related = [
+    { label: 'Synonyms', words: entry.synonyms },
+    { label: 'Antonyms', words: entry.antonyms },
+    { label: 'Collocations', words: entry.collocations },
+  ].filter((group): group is { label: string; words: string[] } => !!group.words?.length);
+
+  return (
+    <>
+      {entry.senses && entry.senses.length > 1 && (
+        <div className="space-y-4">
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider ml-2">Meanings</h3>
+          <ol className="bg-white rounded-2xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+            {entry.senses.map((sense, i) => (
+              <li key={i} className="p-5 flex gap-3">
+                <span className="font-black text-indigo-500">{i + 1}.</span>
+                <div className="space-y-2">
+                  <p {...textAttributes(nativeLanguage)} className="font-medium text-gray-800">{sense.definition}</p>
+                  {sense.examples.map((ex, j) => (
+                    <div key={j} className="text-sm">
+                      <p {...textAttributes(targetLanguage)} className="text-gray-700 italic">{ex.target}</p>
+                      <p className="text-gray-400">{ex.native}</p>
+                    </div>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {tables.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider ml-2">Forms</h3>
+          {tables.slice(0, showAllForms ? tables.length : VISIBLE_TABLES).map((table, i) => (
+            <div key={i} className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+              <p className="px-5 py-3 bg-gray-50 font-bold text-gray-600 text-sm">{table.title}</p>
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-100">
+                  {table.rows.map((row, j) => (
+                    <tr key={j} {...textAttributes(targetLanguage)}>
+                      <td className="px-5 py-2 text-gray-400 w-1/3">{row.label}</td>
+                      <td className="px-5 py-2 font-semibold text-gray-800">
+                        <span className="flex items-center justify-between gap-2">
+                          {row.form}
+                          <button onClick={() => playAudio(row.form, targetLanguage)} title="Listen" className="text-gray-300 hover:text-indigo-500">
+                            <SpeakerIcon className="w-4 h-4" />
+                          </button>
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+          {tables.length > VISIBLE_TABLES && (
+            <button onClick={() => setShowAllForms(!showAllForms)} className="ml-2 text-sm font-bold text-indigo-600">
+              {showAllForms ? 'Show fewer forms' : `Show all forms (${tables.length})`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {related.length > 0 && (
+        <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-4">
+          {related.map(group => (
+            <div key={group.label}>
+              <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2">{group.label}</h3>
+              <div className="flex flex-wrap gap-2">
+                {group.words.map(word => (
+                  <button
+                    key={word}
+                    {...textAttributes(targetLanguage)}
+                    onClick={() => onLookup(word)}
+                    className="px-3 py-1 rounded-full text-sm font-bold bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100"
+                  >
+                    {word}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
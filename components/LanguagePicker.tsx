@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { SUPPORTED_LANGUAGES, SCRIPT_NAMES } from '../constants';
+import { foldText } from '../services/notebookSearch';
+import { SearchIcon } from './Icons';
+
+interface LanguagePickerProps {
+  label: string;
+  value: Language;
+  onChange: (language: Language) => void;
+  disabledCode?: string; // Shown but not selectable, e.g. the other half of the pair
+  accent: 'indigo' | 'pink';
+}
+
+const SELECTED_CLASSES = {
+  indigo: 'border-indigo-500 bg-indigo-50 text-indigo-700 font-bold',
+  pink: 'border-pink-500 bg-pink-50 text-pink-700 font-bold',
+};
+
+// Matches the English name, the native name or the code
+const matches = (language: Language, query: string) => {
+  const folded = foldText(query.trim());
+  return !folded || [language.name, language.nativeName, language.code].some(field => foldText(field).includes(folded));
+};
+
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ label, value, onChange, disabledCode, accent }) => {
+  const [query, setQuery] = useState('');
+  const visible = SUPPORTED_LANGUAGES.filter(lang => matches(lang, query));
+
+  return (
+    <div>
+      <label className="block text-sm font-bold mb-2 text-indigo-900 uppercase tracking-wide">{label}</label>
+      <div className="relative mb-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search languages..."
+          className="w-full pl-9 pr-3 py-2 bg-gray-100 rounded-xl text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+      </div>
+      <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+        {visible.map(lang => (
+          <button
+            key={lang.code}
+            onClick={() => onChange(lang)}
+            disabled={lang.code === disabledCode}
+            className={`p-3 rounded-xl border-2 text-left transition-all disabled:opacity-40 ${value.code === lang.code ? SELECTED_CLASSES[accent] : 'border-gray-100 hover:border-gray-200'}`}
+          >
+            <span className="mr-2">{lang.flag}</span> {lang.name}
+            <span lang={lang.code} className="block text-xs text-gray-400 font-medium">
+              {lang.nativeName} · {SCRIPT_NAMES[lang.script]}
+            </span>
+          </button>
+        ))}
+        {visible.length === 0 && <p className="col-span-2 text-center text-sm text-gray-400 py-4">No languages match.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Language, LearnerProfile } from '../types';
+import { CEFR_LEVELS, EXPLANATION_STYLES, INTEREST_SUGGESTIONS } from '../constants';
+import { levelFor } from '../services/learnerProfile';
+
+interface LearnerProfileFormProps {
+  profile: LearnerProfile;
+  targetLanguage: Language; // Whose level is being set
+  onChange: (profile: LearnerProfile) => void;
+}
+
+const chipClass = (isActive: boolean) =>
+  `px-3 py-1 rounded-full text-sm font-bold border transition-colors ${isActive ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-200'}`;
+
+// The level, explanation style and interests that every explanation, chat
+// and story is tailored to. Shared by onboarding and settings.
+export const LearnerProfileForm: React.FC<LearnerProfileFormProps> = ({ profile, targetLanguage, onChange }) => {
+  const [interestInput, setInterestInput] = useState('');
+  const level = levelFor(profile, targetLanguage.code);
+
+  const toggleInterest = (interest: string) => onChange({
+    ...profile,
+    interests: profile.interests.includes(interest)
+      ? profile.interests.filter(i => i !== interest)
+      : [...profile.interests, interest],
+  });
+
+  const addInterest = (e: React.FormEvent) => {
+    e.preventDefault();
+    const interest = interestInput.trim();
+    setInterestInput('');
+    if (interest && !profile.interests.some(i => i.toLowerCase() === interest.toLowerCase())) {
+      onChange({ ...profile, interests: [...profile.interests, interest] });
+    }
+  };
+
+  // Suggestions first, then anything the learner typed in
+  const interests = [...INTEREST_SUGGESTIONS, ...profile.interests.filter(i => !INTEREST_SUGGESTIONS.includes(i))];
+
+  return (
+    <div className="space-y-6 text-left">
+      <div>
+        <label className="block text-sm font-bold mb-2 text-indigo-900 uppercase tracking-wide">My {targetLanguage.name} level</label>
+        <div className="grid grid-cols-3 gap-2">
+          {CEFR_LEVELS.map(option => (
+            <button
+              key={option.level}
+              onClick={() => onChange({ ...profile, levels: { ...profile.levels, [targetLanguage.code]: option.level } })}
+              className={`p-2 rounded-xl border-2 transition-all ${level === option.level ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-100 hover:border-gray-200'}`}
+            >
+              <span className="block font-black">{option.level}</span>
+              <span className="block text-xs text-gray-400 font-medium">{option.label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-bold mb-2 text-indigo-900 uppercase tracking-wide">Explain things like a...</label>
+        <div className="space-y-2">
+          {EXPLANATION_STYLES.map(option => (
+            <button
+              key={option.style}
+              onClick={() => onChange({ ...profile, style: option.style })}
+              className={`w-full p-3 rounded-xl border-2 text-left transition-all ${profile.style === option.style ? 'border-indigo-500 bg-indigo-50 text-indigo-700 font-bold' : 'border-gray-100 hover:border-gray-200'}`}
+            >
+              {option.label}
+              <span className="block text-xs text-gray-400 font-medium">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-bold mb-2 text-indigo-900 uppercase tracking-wide">I'm into</label>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {interests.map(interest => (
+            <button key={interest} onClick={() => toggleInterest(interest)} className={chipClass(profile.interests.includes(interest))}>
+              {interest}
+            </button>
+          ))}
+        </div>
+        <form onSubmit={addInterest}>
+          <input
+            type="text"
+            value={interestInput}
+            onChange={(e) => setInterestInput(e.target.value)}
+            placeholder="Add your own..."
+            className="w-full px-3 py-2 bg-gray-100 rounded-xl text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { DictionaryEntry } from '../types';
+import { ConflictStrategy, ExportFormat, ImportResult, LanguagePair, exportNotebook, parseNotebookFile } from '../services/notebookIO';
+import { DownloadIcon, UploadIcon } from './Icons';
+
+interface NotebookTransferProps {
+  entries: DictionaryEntry[];
+  pair: LanguagePair;
+  onImport: (imported: ImportResult, strategy: ConflictStrategy) => string; // Returns a summary
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'anki', label: 'Anki' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'LingoPop' },
+];
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  'keep-newer': 'Keep newer',
+  'keep-existing': 'Keep mine',
+  'replace': 'Use imported',
+};
+
+export const NotebookTransfer: React.FC<NotebookTransferProps> = ({ entries, pair, onImport }) => {
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keep-newer');
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsBusy(true);
+    try {
+      await exportNotebook(entries, format, pair);
+      setStatus(`Exported ${entries.length} words.`);
+    } catch (error) {
+      console.error(error);
+      setStatus("Export failed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const imported = await parseNotebookFile(file, pair);
+      setStatus(onImport(imported, strategy));
+    } catch (error) {
+      console.error(error);
+      setStatus(error instanceof Error ? error.message : "Import failed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-4">
+      <div>
+        <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2 flex items-center gap-1">
+          <DownloadIcon className="w-4 h-4" /> Export
+        </h3>
+        <div className="grid grid-cols-3 gap-2">
+          {EXPORT_OPTIONS.map(({ format, label }) => (
+            <button
+              key={format}
+              disabled={isBusy || entries.length === 0}
+              onClick={() => handleExport(format)}
+              className="py-2 rounded-xl bg-indigo-50 text-indigo-700 font-bold text-sm hover:bg-indigo-100 disabled:opacity-50"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2 flex items-center gap-1">
+          <UploadIcon className="w-4 h-4" /> Import
+        </h3>
+        <div className="flex gap-2">
+          <select
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}
+            className="flex-grow bg-gray-100 rounded-xl px-3 py-2 text-sm font-medium focus:outline-none"
+          >
+            {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            disabled={isBusy}
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 rounded-xl bg-pink-50 text-pink-700 font-bold text-sm hover:bg-pink-100 disabled:opacity-50"
+          >
+            Choose file
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,.csv" onChange={handleFile} className="hidden" />
+        </div>
+      </div>
+
+      {status && <p className="text-sm text-gray-500">{status}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { DictionaryEntry } from '../types';
+import { MOCK_IMAGE_PLACEHOLDER, findLanguage, textAttributes } from '../constants';
+import { ConflictStrategy, ImportResult, LanguagePair } from '../services/notebookIO';
+import { NotebookSort, SearchIndex, sortEntries } from '../services/notebookSearch';
+import { isDue } from '../services/scheduler';
+import { BookIcon, BrainIcon, SparklesIcon, FolderIcon, SearchIcon, CheckCircleIcon } from './Icons';
+import { NotebookTransfer } from './NotebookTransfer';
+
+interface NotebookViewProps {
+  entries: DictionaryEntry[]; // The current language pair's notebook
+  pair: LanguagePair;
+  pairs: LanguagePair[]; // Every pair with saved words
+  searchIndex: SearchIndex; // Kept in sync with the whole notebook by the caller
+  onSwitchPair: (pair: LanguagePair) => void;
+  onOpen: (entry: DictionaryEntry) => void;
+  onStudy: () => void;
+  onQuiz: () => void;
+  onStory: () => void;
+  onImport: (imported: ImportResult, strategy: ConflictStrategy) => string;
+}
+
+const UNFILED = 'Unfiled';
+
+type StatusFilter = 'all' | 'due' | 'new';
+
+const SORT_LABELS: Record<NotebookSort, string> = {
+  relevance: 'Best match',
+  recent: 'Recently saved',
+  alphabetical: 'A → Z',
+  due: 'Due first',
+  difficulty: 'Hardest first',
+};
+
+const STATUS_LABELS: Record<StatusFilter, string> = {
+  all: 'All',
+  due: 'Due',
+  new: 'New',
+};
+
+const pairLabel = ({ nativeLang, targetLang }: LanguagePair) => {
+  const native = findLanguage(nativeLang);
+  const target = findLanguage(targetLang);
+  return `${native?.flag ?? nativeLang} → ${target?.flag ?? targetLang} ${target?.name ?? ''}`;
+};
+
+const isSamePair = (a: LanguagePair, b: LanguagePair) =>
+  a.nativeLang === b.nativeLang && a.targetLang === b.targetLang;
+
+export const NotebookView: React.FC<NotebookViewProps> = ({
+  entries, pair, pairs, searchIndex, onSwitchPair, onOpen, onStudy, onQuiz, onStory, onImport,
+}) => {
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<NotebookSort>('recent');
+  const [status, setStatus] = useState<StatusFilter>('all');
+
+  const isSearching = searchQuery.trim().length > 0;
+  const scores = isSearching ? searchIndex.search(searchQuery) : undefined;
+  const now = Date.now();
+  const targetLanguage = findLanguage(pair.targetLang);
+
+  const allTags = Array.from(new Set(entries.flatMap(e => e.tags))).sort();
+  const filtered = entries.filter(e =>
+    (!activeTag || e.tags.includes(activeTag))
+    && (!scores || scores.has(e.id))
+    && (status === 'all' || (status === 'new' ? !e.review : !!e.review && isDue(e, now)))
+  );
+  const visible = sortEntries(filtered, sort === 'relevance' && !isSearching ? 'recent' : sort, pair.targetLang, scores);
+
+  // Folders in alphabetical order, with unfiled words last
+  const groups = new Map<string, DictionaryEntry[]>();
+  visible.forEach(entry => {
+    const folder = entry.folder || UNFILED;
+    groups.set(folder, [...(groups.get(folder) || []), entry]);
+  });
+  const folderNames = Array.from(groups.keys()).sort((a, b) =>
+    a === UNFILED ? 1 : b === UNFILED ? -1 : a.localeCompare(b)
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-black text-gray-800">My Notebook</h2>
+        <div className="bg-indigo-100 text-indigo-700 font-bold px-3 py-1 rounded-full text-sm">
+          {entries.length} words
+        </div>
+      </div>
+
+      {/* Notebook per language pair */}
+      {pairs.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+          {pairs.map(p => (
+            <button
+              key={`${p.nativeLang}-${p.targetLang}`}
+              onClick={() => { setActiveTag(null); setSearchQuery(''); onSwitchPair(p); }}
+              className={`whitespace-nowrap px-3 py-2 rounded-xl text-sm font-bold border-2 ${isSamePair(p, pair) ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-100 bg-white text-gray-500'}`}
+            >
+              {pairLabel(p)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="space-y-3">
+          <div className="relative">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                if (e.target.value.trim() && sort === 'recent') setSort('relevance');
+              }}
+              placeholder="Search your words..."
+              className="w-full pl-10 pr-4 py-3 bg-white rounded-2xl font-medium border border-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as NotebookSort)}
+              className="flex-grow bg-white border border-gray-100 rounded-xl px-3 py-2 text-sm font-bold text-gray-600 focus:outline-none"
+            >
+              {Object.entries(SORT_LABELS)
+                .filter(([value]) => value !== 'relevance' || isSearching)
+                .map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <div className="flex bg-white border border-gray-100 rounded-xl p-1">
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setStatus(value as StatusFilter)}
+                  className={`px-3 py-1 rounded-lg text-sm font-bold ${status === value ? 'bg-indigo-600 text-white' : 'text-gray-500'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {allTags.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          <button
+            onClick={() => setActiveTag(null)}
+            className={`px-3 py-1 rounded-full text-sm font-bold ${activeTag === null ? 'bg-indigo-600 text-white' : 'bg-white text-gray-500 border border-gray-200'}`}
+          >
+            All
+          </button>
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`px-3 py-1 rounded-full text-sm font-bold ${activeTag === tag ? 'bg-indigo-600 text-white' : 'bg-white text-gray-500 border border-gray-200'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-3xl border-2 border-dashed border-gray-200">
+          <BookIcon className="w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p>No words saved yet!</p>
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-center py-8 text-gray-400">No words match.</p>
+      ) : (
+        folderNames.map(folder => (
+          <div key={folder} className="space-y-3">
+            {/* Only label groups once the user has started using folders */}
+            {(folderNames.length > 1 || folder !== UNFILED) && (
+              <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider ml-2 flex items-center gap-1">
+                <FolderIcon className="w-4 h-4" /> {folder}
+              </h3>
+            )}
+            <div className="grid gap-3">
+              {groups.get(folder)!.map(entry => (
+                <div key={entry.id} onClick={() => onOpen(entry)} className="bg-white p-4 rounded-2xl shadow-sm flex items-center gap-4 cursor-pointer hover:shadow-md transition-shadow">
+                  <img src={entry.imageUrl || MOCK_IMAGE_PLACEHOLDER} className="w-16 h-16 rounded-xl object-cover bg-gray-100" />
+                  <div className="min-w-0">
+                    <h4 {...textAttributes(targetLanguage)} className="font-bold text-lg">{entry.term}</h4>
+                    <p className="text-sm text-gray-500 line-clamp-1">{entry.definition}</p>
+                    {entry.tags.length > 0 && (
+                      <p className="text-xs text-indigo-400 font-bold mt-1 truncate">{entry.tags.map(t => `#${t}`).join(' ')}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+
+      {entries.length > 0 && (
+        <div className="grid grid-cols-3 gap-3 mt-6">
+          <button
+            onClick={onStudy}
+            className="bg-indigo-600 text-white p-4 rounded-2xl font-bold flex flex-col items-center justify-center gap-2 shadow-lg active:scale-95 transition-transform"
+          >
+            <BrainIcon className="w-8 h-8"/>
+            Study Mode
+          </button>
+          <button
+            onClick={onQuiz}
+            className="bg-emerald-500 text-white p-4 rounded-2xl font-bold flex flex-col items-center justify-center gap-2 shadow-lg active:scale-95 transition-transform"
+          >
+            <CheckCircleIcon className="w-8 h-8"/>
+            Quiz
+          </button>
+          <button
+            onClick={onStory}
+            className="bg-pink-500 text-white p-4 rounded-2xl font-bold flex flex-col items-center justify-center gap-2 shadow-lg active:scale-95 transition-transform"
+          >
+            <SparklesIcon className="w-8 h-8"/>
+            Story Time
+          </button>
+        </div>
+      )}
+
+      <NotebookTransfer entries={entries} pair={pair} onImport={onImport} />
+    </div>
+  );
+};
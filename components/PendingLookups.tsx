@@ -0,0 +1,61 @@
+import React from 'react';
+import { findLanguage, textAttributes } from '../constants';
+import { PendingLookup } from '../services/storage';
+import { RefreshIcon } from './Icons';
+
+interface PendingLookupsProps {
+  items: PendingLookup[];
+  isOnline: boolean;
+  onOpen: (item: PendingLookup) => void;
+  onRetry: (item: PendingLookup) => void;
+  onDismiss: (item: PendingLookup) => void;
+}
+
+// Searches made offline, shown until they have been opened or dismissed
+export const PendingLookups: React.FC<PendingLookupsProps> = ({ items, isOnline, onOpen, onRetry, onDismiss }) => {
+  if (items.length === 0) return null;
+
+  const statusLabel = (item: PendingLookup) => {
+    switch (item.status) {
+      case 'ready':
+        return <span className="text-green-600">Ready — tap to open</span>;
+      case 'failed':
+        return <span className="text-red-500">Couldn't look this up</span>;
+      default:
+        return <span className={isOnline ? 'text-indigo-400 animate-pulse' : 'text-gray-400'}>{isOnline ? 'Looking up...' : 'Waiting for a connection'}</span>;
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden text-left animate-in fade-in">
+      <div className="px-4 pt-4 pb-2">
+        <h3 className="font-bold text-gray-800">Saved for later</h3>
+        <p className="text-sm text-gray-400">
+          {isOnline ? 'Searches you made offline.' : "You're offline. Searches are saved and looked up when you reconnect."}
+        </p>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {items.map(item => (
+          <div key={item.key} className="flex items-center justify-between gap-3 px-4 py-3">
+            <button
+              onClick={() => onOpen(item)}
+              disabled={item.status !== 'ready'}
+              className="flex-grow text-left disabled:cursor-default"
+            >
+              <p {...textAttributes(findLanguage(item.targetLang))} className="font-bold text-gray-800">{item.term}</p>
+              <p className="text-xs font-bold">{statusLabel(item)}</p>
+            </button>
+            {item.status === 'failed' && (
+              <button onClick={() => onRetry(item)} title="Try again" className="p-2 rounded-full text-indigo-600 bg-indigo-50">
+                <RefreshIcon className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={() => onDismiss(item)} title="Remove" className="text-gray-400 font-bold text-sm bg-gray-100 px-3 py-1 rounded-full">
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Language, RecognizedText } from '../types';
+import { textAttributes } from '../constants';
+import { recognizeText } from '../services/geminiService';
+import { preparePhoto } from '../services/photoService';
+import { segmentWords } from '../services/textSegmenter';
+import { describeError, toAIError } from '../services/errors';
+import { SearchIcon } from './Icons';
+
+interface PhotoLookupProps {
+  file: File;
+  targetLanguage: Language;
+  onLookup: (term: string, photo: string) => void; // photo is a data URL
+  onClose: () => void;
+}
+
+// A run of segments on one line, inclusive
+interface Selection {
+  line: number;
+  start: number;
+  end: number;
+}
+
+// Reads the text in a photo and lets the learner tap out a word or phrase.
+// Tapping a word next to the selection extends it; tapping inside shrinks
+// it back to that word.
+export const PhotoLookup: React.FC<PhotoLookupProps> = ({ file, targetLanguage, onLookup, onClose }) => {
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [recognized, setRecognized] = useState<RecognizedText | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    preparePhoto(file)
+      .then(prepared => {
+        if (isCancelled) return null;
+        setPhoto(prepared.dataUrl);
+        return recognizeText(prepared.media, targetLanguage);
+      })
+      .then(result => {
+        if (!isCancelled && result) setRecognized(result);
+      })
+      .catch(err => {
+        console.error("Failed to read photo:", err);
+        if (!isCancelled) setError(describeError(toAIError(err)).message);
+      });
+    return () => { isCancelled = true; };
+  }, [file]);
+
+  const lines = (recognized?.lines || []).map(line => segmentWords(line, targetLanguage.code));
+
+  const tapWord = (line: number, index: number) => {
+    if (!selection || selection.line !== line) {
+      setSelection({ line, start: index, end: index });
+    } else if (index < selection.start || index > selection.end) {
+      setSelection({ line, start: Math.min(index, selection.start), end: Math.max(index, selection.end) });
+    } else {
+      setSelection(selection.start === selection.end ? null : { line, start: index, end: index });
+    }
+  };
+
+  const selectedText = selection
+    ? lines[selection.line].slice(selection.start, selection.end + 1).map(s => s.text).join('').trim()
+    : '';
+
+  const lookUp = (term: string) => {
+    if (term && photo) onLookup(term, photo);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-end justify-center">
+      <div className="bg-white w-full max-w-md h-[85vh] rounded-t-3xl flex flex-col shadow-2xl animate-in slide-in-from-bottom duration-300">
+        <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-3xl">
+          <span className="font-bold text-gray-800">Look up from a photo</span>
+          <button onClick={onClose} className="text-gray-500 font-bold text-sm bg-gray-200 px-3 py-1 rounded-full">Close</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-4">
+          {photo && <img src={photo} alt="Your photo" className="w-full max-h-56 object-contain rounded-2xl bg-gray-100" />}
+
+          {error ? (
+            <p className="text-sm font-bold text-red-600">{error}</p>
+          ) : !recognized ? (
+            <p className="text-center py-6 text-indigo-400 font-bold text-sm uppercase tracking-widest animate-pulse">Reading the text...</p>
+          ) : lines.length === 0 ? (
+            <p className="text-center py-6 text-gray-400">No {targetLanguage.name} text found in this photo.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-400">Tap a word, or tap neighbouring words to select a phrase.</p>
+              <div {...textAttributes(targetLanguage)} className="bg-gray-50 rounded-2xl p-4 space-y-2 text-lg">
+                {lines.map((segments, line) => (
+                  <p key={line} className="leading-loose">
+                    {segments.map((segment, index) => segment.isWord ? (
+                      <button
+                        key={index}
+                        onClick={() => tapWord(line, index)}
+                        className={`rounded px-0.5 font-medium ${selection?.line === line && index >= selection.start && index <= selection.end ? 'bg-indigo-600 text-white' : 'hover:bg-indigo-100'}`}
+                      >
+                        {segment.text}
+                      </button>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    ))}
+                  </p>
+                ))}
+              </div>
+
+              {recognized.phrases.length > 0 && (
+                <div>
+                  <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2">Phrases</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {recognized.phrases.map(phrase => (
+                      <button
+                        key={phrase}
+                        {...textAttributes(targetLanguage)}
+                        onClick={() => lookUp(phrase)}
+                        className="px-3 py-1 rounded-full text-sm font-bold bg-indigo-50 text-indigo-700 border border-indigo-100"
+                      >
+                        {phrase}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t bg-white">
+          <button
+            onClick={() => lookUp(selectedText)}
+            disabled={!selectedText}
+            className="w-full bg-indigo-600 text-white font-bold py-3 rounded-2xl shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <SearchIcon className="w-5 h-5" />
+            {selectedText ? <>Look up “<span {...textAttributes(targetLanguage)}>{selectedText}</span>”</> : 'Select a word'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
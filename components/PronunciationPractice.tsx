@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DictionaryEntry, Language, PronunciationAssessment } from '../types';
+import { assessPronunciation } from '../services/geminiService';
+import { RecordingSession, isRecordingSupported, startRecording } from '../services/pronunciationService';
+import { describeError, toAIError } from '../services/errors';
+import { MicIcon, StopIcon } from './Icons';
+
+interface PronunciationPracticeProps {
+  entry: DictionaryEntry;
+  nativeLanguage: Language;
+  targetLanguage: Language;
+  onAttempt: (assessment: PronunciationAssessment) => void;
+}
+
+type PracticeStatus = 'idle' | 'recording' | 'scoring';
+
+const HISTORY_BARS = 10;
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-400' : 'bg-red-400';
+
+// "Say it": records the learner, has the model score the attempt against the
+// term, and shows the latest feedback with a bar per recent attempt.
+export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
+  entry, nativeLanguage, targetLanguage, onAttempt,
+}) => {
+  const [status, setStatus] = useState<PracticeStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const isMountedRef = useRef(true);
+
+  // Don't leave the microphone on when the card goes away mid-recording, and
+  // drop a score that arrives after it has gone
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      sessionRef.current?.cancel();
+    };
+  }, []);
+
+  const finishRecording = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    setStatus('scoring');
+    try {
+      const recording = await session.stop();
+      const assessment = await assessPronunciation(entry, recording, nativeLanguage, targetLanguage);
+      if (isMountedRef.current) onAttempt(assessment);
+    } catch (err) {
+      console.error("Pronunciation check failed:", err);
+      if (isMountedRef.current) setError(describeError(toAIError(err)).message);
+    } finally {
+      if (isMountedRef.current) setStatus('idle');
+    }
+  };
+
+  const beginRecording = async () => {
+    setError(null);
+    try {
+      sessionRef.current = await startRecording(finishRecording);
+      setStatus('recording');
+    } catch (err) {
+      console.error("Failed to start recording:", err);
+      setError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? 'Microphone access is blocked. Allow it in your browser settings to practise.'
+        : "Couldn't start the microphone.");
+    }
+  };
+
+  if (!isRecordingSupported()) return null;
+
+  const attempts = entry.pronunciation || [];
+  const latest = attempts[attempts.length - 1];
+  const best = attempts.reduce((max, attempt) => Math.max(max, attempt.score), 0);
+
+  return (
+    <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="font-bold text-gray-800">Say it</h3>
+          <p className="text-sm text-gray-400">
+            {status === 'recording' ? 'Listening... tap to stop' : status === 'scoring' ? 'Checking your pronunciation...' : `Record yourself saying "${entry.term}"`}
+          </p>
+        </div>
+        <button
+          onClick={status === 'recording' ? finishRecording : beginRecording}
+          disabled={status === 'scoring'}
+          title={status === 'recording' ? 'Stop recording' : 'Record'}
+          className={`p-4 rounded-full shadow-lg text-white active:scale-95 transition-transform disabled:opacity-50 ${status === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-indigo-600'}`}
+        >
+          {status === 'recording' ? <StopIcon className="w-6 h-6" /> : <MicIcon className="w-6 h-6" />}
+        </button>
+      </div>
+
+      {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+
+      {latest && (
+        <div className="space-y-3">
+          <div className="flex items-baseline gap-3">
+            <span className="text-4xl font-black text-gray-900">{latest.score}</span>
+            <span className="text-sm text-gray-400">/ 100 · best {best}</span>
+          </div>
+          {latest.transcript && (
+            <p className="text-sm text-gray-500">
+              We heard: <span lang={targetLanguage.code} className="font-bold text-gray-700">{latest.transcript}</span>
+            </p>
+          )}
+          <p className="text-gray-700">{latest.feedback}</p>
+          {latest.tips.length > 0 && (
+            <ul className="space-y-1">
+              {latest.tips.map((tip, i) => (
+                <li key={i} className="text-sm text-indigo-700 bg-indigo-50 rounded-xl px-3 py-2">{tip}</li>
+              ))}
+            </ul>
+          )}
+          {attempts.length > 1 && (
+            <div className="flex items-end gap-1 h-10" title="Recent attempts">
+              {attempts.slice(-HISTORY_BARS).map(attempt => (
+                <div
+                  key={attempt.at}
+                  className={`flex-1 rounded-t ${scoreColor(attempt.score)}`}
+                  style={{ height: `${Math.max(8, attempt.score)}%` }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { DictionaryEntry, Language } from '../types';
+import { textAttributes } from '../constants';
+import { AnswerVerdict, QuizExercise, QuizExerciseKind, buildQuiz, checkAnswer, isCorrect } from '../services/quizEngine';
+import { playAudio } from '../services/audioService';
+import { ChevronLeftIcon, SpeakerIcon } from './Icons';
+
+interface QuizViewProps {
+  entries: DictionaryEntry[]; // The current language pair's notebook
+  targetLanguage: Language;
+  onAnswer: (entryId: string, correct: boolean) => void; // Called as each answer is checked
+  onExit: () => void;
+}
+
+interface QuizResult {
+  exercise: QuizExercise;
+  verdict: AnswerVerdict;
+}
+
+const INSTRUCTIONS: Record<QuizExerciseKind, (language: Language) => string> = {
+  definition: () => 'What does this mean?',
+  cloze: () => 'Fill in the gap',
+  listening: () => 'Type what you hear',
+  reverse: (language) => `Translate into ${language.name}`,
+};
+
+const VERDICT_MESSAGES: Record<AnswerVerdict, string> = {
+  exact: 'Correct! 🎉',
+  accent: 'Correct — mind the accents:',
+  typo: 'Almost! Watch the spelling:',
+  wrong: 'Not quite. The answer is:',
+};
+
+export const QuizView: React.FC<QuizViewProps> = ({ entries, targetLanguage, onAnswer, onExit }) => {
+  const [exercises, setExercises] = useState(() => buildQuiz(entries));
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState('');
+  const [verdict, setVerdict] = useState<AnswerVerdict | null>(null);
+  const [showHint, setShowHint] = useState(false);
+  const [results, setResults] = useState<QuizResult[]>([]);
+
+  const exercise = exercises[index] as QuizExercise | undefined;
+
+  // Listening exercises start by playing the word
+  useEffect(() => {
+    if (exercise?.audioText) playAudio(exercise.audioText, targetLanguage);
+  }, [exercise?.id]);
+
+  const submit = (answer: string) => {
+    if (!exercise || verdict) return;
+    const result = exercise.choices
+      ? (answer === exercise.answer ? 'exact' : 'wrong')
+      : checkAnswer(answer, exercise.answer);
+    setVerdict(result);
+    setResults(prev => [...prev, { exercise, verdict: result }]);
+    onAnswer(exercise.entryId, isCorrect(result));
+  };
+
+  const next = () => {
+    setIndex(index + 1);
+    setInput('');
+    setVerdict(null);
+    setShowHint(false);
+  };
+
+  const restart = () => {
+    setExercises(buildQuiz(entries));
+    setResults([]);
+    setIndex(0);
+    setInput('');
+    setVerdict(null);
+    setShowHint(false);
+  };
+
+  const termFor = (entryId: string) => entries.find(e => e.id === entryId)?.term ?? '';
+  const score = results.filter(r => isCorrect(r.verdict)).length;
+
+  return (
+    <div className="space-y-6 animate-in fade-in">
+      <div className="flex items-center justify-between">
+        <button onClick={onExit} className="p-2 bg-white rounded-full shadow text-gray-600">
+          <ChevronLeftIcon />
+        </button>
+        <span className="font-bold text-gray-500">Quiz</span>
+        <div className="bg-indigo-100 text-indigo-700 font-bold px-3 py-1 rounded-full text-sm">
+          {Math.min(index + 1, exercises.length)} / {exercises.length}
+        </div>
+      </div>
+
+      {exercises.length === 0 ? (
+        <p className="text-center py-12 text-gray-400">Save a few words to your notebook to take a quiz.</p>
+      ) : !exercise ? (
+        // --- Summary ---
+        <div className="space-y-4">
+          <div className="bg-white p-8 rounded-3xl shadow-xl text-center">
+            <div className="text-5xl mb-2">{score === results.length ? '🏆' : score >= results.length / 2 ? '👏' : '💪'}</div>
+            <p className="text-4xl font-black text-gray-900">{score} / {results.length}</p>
+            <p className="text-gray-400 font-bold">correct</p>
+          </div>
+          <div className="bg-white rounded-3xl shadow-sm divide-y divide-gray-100">
+            {results.map(({ exercise: done, verdict: result }) => (
+              <div key={done.id} className="flex items-center justify-between p-4">
+                <span {...textAttributes(targetLanguage)} className="font-bold text-gray-800">{termFor(done.entryId)}</span>
+                <span className={`text-sm font-bold ${isCorrect(result) ? 'text-green-600' : 'text-red-500'}`}>
+                  {isCorrect(result) ? '✓' : '✗'} {done.kind}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={restart} className="bg-indigo-600 text-white p-4 rounded-2xl font-bold shadow-lg active:scale-95 transition-transform">New quiz</button>
+            <button onClick={onExit} className="bg-white text-gray-600 p-4 rounded-2xl font-bold shadow-sm active:scale-95 transition-transform">Done</button>
+          </div>
+        </div>
+      ) : (
+        // --- Exercise ---
+        <div className="bg-white p-6 rounded-3xl shadow-xl space-y-5">
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider">{INSTRUCTIONS[exercise.kind](targetLanguage)}</h3>
+
+          {exercise.audioText ? (
+            <button
+              onClick={() => playAudio(exercise.audioText!, targetLanguage)}
+              className="mx-auto flex p-6 bg-indigo-100 rounded-full text-indigo-600 hover:bg-indigo-200 active:scale-95 transition-transform"
+            >
+              <SpeakerIcon className="w-10 h-10" />
+            </button>
+          ) : (
+            <p {...(exercise.kind === 'reverse' ? {} : textAttributes(targetLanguage))} className="text-2xl font-black text-gray-900 leading-snug">
+              {exercise.prompt}
+            </p>
+          )}
+
+          {exercise.kind === 'cloze' && exercise.hint && <p className="text-gray-500">{exercise.hint}</p>}
+          {exercise.kind === 'reverse' && exercise.hint && (
+            showHint
+              ? <p className="text-sm text-gray-500">Use: <span {...textAttributes(targetLanguage)} className="font-bold">{exercise.hint}</span></p>
+              : <button onClick={() => setShowHint(true)} className="text-sm font-bold text-indigo-500">Show hint</button>
+          )}
+
+          {exercise.choices ? (
+            <div className="grid gap-2">
+              {exercise.choices.map(choice => {
+                const isAnswer = verdict && choice === exercise.answer;
+                const isPicked = verdict && choice === input;
+                return (
+                  <button
+                    key={choice}
+                    onClick={() => { setInput(choice); submit(choice); }}
+                    disabled={!!verdict}
+                    className={`text-left p-4 rounded-2xl border-2 font-medium transition-colors ${isAnswer ? 'border-green-500 bg-green-50' : isPicked ? 'border-red-400 bg-red-50' : 'border-gray-100 hover:border-gray-200'}`}
+                  >
+                    {choice}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <form onSubmit={(e) => { e.preventDefault(); submit(input); }} className="flex gap-2">
+              <input
+                {...textAttributes(targetLanguage)}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                disabled={!!verdict}
+                autoFocus
+                autoCapitalize="off"
+                autoCorrect="off"
+                spellCheck={false}
+                placeholder="Your answer..."
+                className="flex-grow bg-gray-100 rounded-2xl px-4 py-3 text-lg font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              {!verdict && (
+                <button type="submit" disabled={!input.trim()} className="bg-indigo-600 text-white px-5 rounded-2xl font-bold disabled:opacity-50">Check</button>
+              )}
+            </form>
+          )}
+
+          {verdict && (
+            <div className={`rounded-2xl p-4 ${isCorrect(verdict) ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+              <p className="font-bold">
+                {exercise.choices && verdict === 'wrong' ? 'Not quite — the right answer is highlighted.' : VERDICT_MESSAGES[verdict]}
+              </p>
+              {verdict !== 'exact' && !exercise.choices && (
+                <p {...textAttributes(targetLanguage)} className="text-lg font-black mt-1">{exercise.answer}</p>
+              )}
+            </div>
+          )}
+
+          {verdict && (
+            <button onClick={next} className="w-full bg-indigo-600 text-white font-bold py-3 rounded-2xl shadow-lg active:scale-95 transition-transform">
+              {index + 1 < exercises.length ? 'Next' : 'See results'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
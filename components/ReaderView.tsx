@@ -0,0 +1,297 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DictionaryEntry, Language } from '../types';
+import { textAttributes } from '../constants';
+import { normalizeTerm } from '../services/lookupCache';
+import { segmentWords } from '../services/textSegmenter';
+import { playAudio } from '../services/audioService';
+import { describeError, toAIError } from '../services/errors';
+import { BookOpenIcon, SaveIcon, SpeakerIcon } from './Icons';
+
+interface ReaderViewProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  entries: DictionaryEntry[]; // The current language pair's notebook
+  targetLanguage: Language;
+  // Notebook, cache or model; `onText` fires once the text is in, before the image
+  resolve: (term: string, onText?: (entry: DictionaryEntry) => void) => Promise<DictionaryEntry>;
+  onSave: (entries: DictionaryEntry[]) => void;
+  onOpen: (term: string) => void;
+}
+
+interface WordLookup {
+  status: 'loading' | 'ready' | 'error';
+  entry?: DictionaryEntry; // Set while loading once the text has arrived
+  error?: string;
+}
+
+// Where the tapped word is, so its card opens under the right paragraph
+interface ActiveWord {
+  paragraph: number;
+  index: number;
+  key: string;
+}
+
+const isNumber = (word: string) => /^[\p{N}.,]+$/u.test(word);
+
+// Annotates a pasted passage: every word can be tapped for a short
+// definition, words already in the notebook are highlighted, and the rest
+// can be saved in one go. Lookups go through the same notebook and cache as
+// the search box, so a word read here opens instantly from search later.
+export const ReaderView: React.FC<ReaderViewProps> = ({
+  text, onTextChange, entries, targetLanguage, resolve, onSave, onOpen,
+}) => {
+  const [isEditing, setIsEditing] = useState(!text.trim());
+  const [draft, setDraft] = useState(text);
+  const [lookups, setLookups] = useState<Record<string, WordLookup>>({});
+  const [active, setActive] = useState<ActiveWord | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [saveProgress, setSaveProgress] = useState<{ done: number; total: number } | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => () => { isMountedRef.current = false; }, []);
+
+  const known = new Map<string, DictionaryEntry>(entries.map(entry => [normalizeTerm(entry.term), entry]));
+  const paragraphs = text.split(/\n+/).filter(p => p.trim()).map(p => segmentWords(p, targetLanguage.code));
+
+  // The notebook holds dictionary forms, so once "corrió" has been looked up
+  // it counts as known if "correr" is saved
+  const findKnown = (key: string): DictionaryEntry | undefined => {
+    const lemma = lookups[key]?.entry?.lemma;
+    return known.get(key) || (lemma ? known.get(normalizeTerm(lemma)) : undefined);
+  };
+
+  // First spelling of each word not in the notebook, in reading order
+  const unknown = new Map<string, string>();
+  paragraphs.flat().forEach(segment => {
+    const key = normalizeTerm(segment.text);
+    if (segment.isWord && !isNumber(key) && !findKnown(key) && !unknown.has(key)) unknown.set(key, segment.text);
+  });
+
+  const setLookup = (key: string, lookup: WordLookup) => {
+    if (isMountedRef.current) setLookups(prev => ({ ...prev, [key]: lookup }));
+  };
+
+  const lookUp = async (word: string, key: string): Promise<DictionaryEntry | null> => {
+    setLookup(key, { status: 'loading' });
+    try {
+      const entry = await resolve(word, partial => setLookup(key, { status: 'loading', entry: partial }));
+      setLookup(key, { status: 'ready', entry });
+      return entry;
+    } catch (err) {
+      console.error("Reader lookup failed:", err);
+      setLookup(key, { status: 'error', error: describeError(toAIError(err)).message });
+      return null;
+    }
+  };
+
+  const tapWord = (word: string, paragraph: number, index: number) => {
+    const key = normalizeTerm(word);
+    if (active?.paragraph === paragraph && active.index === index) {
+      setActive(null);
+      return;
+    }
+    setActive({ paragraph, index, key });
+    const existing = lookups[key];
+    if (!findKnown(key) && (!existing || existing.status === 'error')) lookUp(word, key);
+  };
+
+  // Swaps an inflected form for its dictionary form before it is saved.
+  // Resolves to null when that form is already in the notebook.
+  const toDictionaryForm = async (entry: DictionaryEntry): Promise<DictionaryEntry | null> => {
+    if (!entry.lemma || normalizeTerm(entry.lemma) === normalizeTerm(entry.term)) return entry;
+    return known.has(normalizeTerm(entry.lemma)) ? null : resolve(entry.lemma);
+  };
+
+  const saveWord = async (key: string, entry: DictionaryEntry) => {
+    try {
+      const saving = await toDictionaryForm(entry);
+      if (saving) onSave([saving]);
+    } catch (err) {
+      console.error("Failed to save word:", err);
+      setLookup(key, { status: 'error', error: describeError(toAIError(err)).message });
+    }
+  };
+
+  const toggleSelected = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setSelected(next);
+  };
+
+  // One word at a time: most come from the cache, and the rest shouldn't
+  // all hit the model at once. Forms of the same word are saved once.
+  const saveSelected = async () => {
+    const keys = Array.from<string>(selected).filter(key => unknown.has(key));
+    const savedForms = new Set<string>();
+    setSaveProgress({ done: 0, total: keys.length });
+    for (const [i, key] of keys.entries()) {
+      if (!isMountedRef.current) return;
+      const ready = lookups[key]?.status === 'ready' ? lookups[key].entry : undefined;
+      const entry = ready || await lookUp(unknown.get(key)!, key);
+      const form = entry && normalizeTerm(entry.lemma || entry.term);
+      if (entry && form && !savedForms.has(form)) {
+        savedForms.add(form);
+        await saveWord(key, entry);
+      }
+      if (isMountedRef.current) setSaveProgress({ done: i + 1, total: keys.length });
+    }
+    if (!isMountedRef.current) return;
+    setSelected(new Set());
+    setSaveProgress(null);
+  };
+
+  const startReading = () => {
+    onTextChange(draft.trim());
+    setActive(null);
+    setSelected(new Set());
+    setIsEditing(false);
+  };
+
+  const renderCard = (key: string) => {
+    const saved = findKnown(key);
+    const lookup = lookups[key];
+    const entry = saved || lookup?.entry;
+
+    return (
+      <div className="my-3 bg-white rounded-2xl p-4 shadow-lg border border-indigo-100 space-y-2 animate-in fade-in" dir="ltr">
+        {lookup?.status === 'error' && !saved ? (
+          <p className="text-sm font-bold text-red-600">{lookup.error}</p>
+        ) : !entry ? (
+          <p className="text-sm text-indigo-400 font-bold uppercase tracking-widest animate-pulse">Looking up...</p>
+        ) : (
+          <>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <span {...textAttributes(targetLanguage)} className="text-xl font-black text-gray-900">{entry.term}</span>
+                {entry.phonetic && <span className="ml-2 text-sm text-gray-400">{entry.phonetic}</span>}
+              </div>
+              <button onClick={() => playAudio(entry.term, targetLanguage)} title="Listen" className="p-2 bg-indigo-50 rounded-full text-indigo-600">
+                <SpeakerIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-gray-700 line-clamp-3">{entry.definition}</p>
+            <div className="flex gap-2 pt-1">
+              {saved ? (
+                <span className="px-3 py-1 rounded-full text-sm font-bold bg-green-50 text-green-700">In your notebook</span>
+              ) : (
+                <button
+                  onClick={() => lookup?.entry && saveWord(key, lookup.entry)}
+                  disabled={lookup?.status !== 'ready'}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full text-sm font-bold bg-indigo-600 text-white disabled:opacity-50"
+                >
+                  <SaveIcon className="w-4 h-4" /> Save
+                </button>
+              )}
+              <button onClick={() => onOpen(entry.term)} className="px-3 py-1 rounded-full text-sm font-bold bg-gray-100 text-gray-600">
+                Open full entry
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-4 animate-in fade-in">
+        <div className="flex items-center gap-2">
+          <BookOpenIcon className="w-6 h-6 text-indigo-600" />
+          <h2 className="text-2xl font-black text-gray-900">Reader</h2>
+        </div>
+        <p className="text-gray-500">Paste an article or paragraph in {targetLanguage.name}, then tap any word to look it up.</p>
+        <textarea
+          {...textAttributes(targetLanguage)}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={10}
+          placeholder={`Paste ${targetLanguage.name} text here...`}
+          className="w-full bg-white rounded-3xl p-4 shadow-sm border border-gray-100 text-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={startReading}
+          disabled={!draft.trim()}
+          className="w-full bg-indigo-600 text-white font-bold py-3 rounded-2xl shadow-lg active:scale-95 transition-transform disabled:opacity-50"
+        >
+          Start reading
+        </button>
+      </div>
+    );
+  }
+
+  const wordCount = paragraphs.flat().filter(s => s.isWord && !isNumber(s.text)).length;
+  const knownCount = paragraphs.flat().filter(s => s.isWord && findKnown(normalizeTerm(s.text))).length;
+
+  return (
+    <div className="space-y-6 animate-in fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-black text-gray-900">Reader</h2>
+          <p className="text-sm text-gray-400">{knownCount} of {wordCount} words in your notebook</p>
+        </div>
+        <button onClick={() => { setDraft(text); setIsEditing(true); }} className="text-sm font-bold text-indigo-600 bg-indigo-50 px-3 py-1 rounded-full">
+          Edit text
+        </button>
+      </div>
+
+      <div {...textAttributes(targetLanguage)} className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 text-lg">
+        {paragraphs.map((segments, paragraph) => (
+          <div key={paragraph} className="mb-4 last:mb-0">
+            <p className="leading-loose">
+              {segments.map((segment, index) => {
+                if (!segment.isWord) return <span key={index}>{segment.text}</span>;
+                const key = normalizeTerm(segment.text);
+                const isActive = active?.paragraph === paragraph && active.index === index;
+                return (
+                  <button
+                    key={index}
+                    onClick={() => tapWord(segment.text, paragraph, index)}
+                    className={`rounded px-0.5 ${isActive ? 'bg-indigo-600 text-white' : findKnown(key) ? 'bg-green-100 text-green-900' : 'hover:bg-indigo-100'}`}
+                  >
+                    {segment.text}
+                  </button>
+                );
+              })}
+            </p>
+            {active?.paragraph === paragraph && renderCard(active.key)}
+          </div>
+        ))}
+      </div>
+
+      {unknown.size > 0 && (
+        <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider">New words ({unknown.size})</h3>
+            <button
+              onClick={() => setSelected(selected.size === unknown.size ? new Set() : new Set(unknown.keys()))}
+              disabled={!!saveProgress}
+              className="text-sm font-bold text-indigo-600"
+            >
+              {selected.size === unknown.size ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <div {...textAttributes(targetLanguage)} className="flex flex-wrap gap-2">
+            {Array.from(unknown, ([key, word]) => (
+              <button
+                key={key}
+                onClick={() => toggleSelected(key)}
+                disabled={!!saveProgress}
+                className={`px-3 py-1 rounded-full text-sm font-bold border ${selected.has(key) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-gray-50 text-gray-600 border-gray-200'}`}
+              >
+                {word}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={saveSelected}
+            disabled={selected.size === 0 || !!saveProgress}
+            className="w-full bg-indigo-600 text-white font-bold py-3 rounded-2xl shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <SaveIcon className="w-5 h-5" />
+            {saveProgress ? `Saving ${saveProgress.done} / ${saveProgress.total}...` : selected.size ? `Save ${selected.size} to notebook` : 'Select words to save'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
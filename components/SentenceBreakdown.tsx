@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Language, SentenceAnalysis, SentenceToken } from '../types';
+import { textAttributes } from '../constants';
+import { playAudio } from '../services/audioService';
+import { SaveIcon, SearchIcon, SpeakerIcon } from './Icons';
+
+interface SentenceBreakdownProps {
+  sentence: string;
+  analysis: SentenceAnalysis | null; // Null until the first part streams in
+  isStreaming: boolean;
+  nativeLanguage: Language;
+  targetLanguage: Language;
+  isSaved: (lemma: string) => boolean;
+  onSaveToken: (token: SentenceToken) => Promise<void>; // Looks the lemma up, then saves it
+  onOpenToken: (token: SentenceToken) => void;
+  onLookupAsWord: () => void;
+}
+
+type SaveStatus = 'saving' | 'failed';
+
+// Sentence mode: a word-by-word gloss lined up under the original, the
+// grammar that holds it together and a natural translation. Any word can be
+// saved to the notebook on its own, in its dictionary form.
+export const SentenceBreakdown: React.FC<SentenceBreakdownProps> = ({
+  sentence, analysis, isStreaming, nativeLanguage, targetLanguage, isSaved, onSaveToken, onOpenToken, onLookupAsWord,
+}) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [saving, setSaving] = useState<Record<string, SaveStatus>>({});
+
+  const saveToken = async (token: SentenceToken) => {
+    setSaving(prev => ({ ...prev, [token.lemma]: 'saving' }));
+    try {
+      await onSaveToken(token);
+      setSaving(prev => {
+        const { [token.lemma]: _done, ...rest } = prev;
+        return rest;
+      });
+    } catch (err) {
+      console.error("Failed to save word from sentence:", err);
+      setSaving(prev => ({ ...prev, [token.lemma]: 'failed' }));
+    }
+  };
+
+  const tokens = analysis?.tokens || [];
+  const token = selected !== null ? tokens[selected] : undefined;
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in slide-in-from-bottom-8 duration-500">
+      <div className="bg-white rounded-3xl shadow-xl p-6 space-y-5">
+        <div className="flex items-start justify-between gap-3">
+          <p {...textAttributes(targetLanguage)} className="text-2xl font-black text-gray-900 leading-snug">{sentence}</p>
+          <button onClick={() => playAudio(sentence, targetLanguage)} className="p-3 bg-indigo-100 rounded-full text-indigo-600 hover:bg-indigo-200 active:scale-95 transition-colors shrink-0">
+            <SpeakerIcon />
+          </button>
+        </div>
+
+        {!analysis ? (
+          <p className="text-indigo-400 font-bold text-sm uppercase tracking-widest animate-pulse">Breaking it down...</p>
+        ) : (
+          <>
+            {/* Interlinear gloss: each word over its literal meaning */}
+            <div {...textAttributes(targetLanguage)} className="flex flex-wrap gap-x-1 gap-y-3">
+              {tokens.map((t, i) => (
+                <button
+                  key={i}
+                  onClick={() => setSelected(selected === i ? null : i)}
+                  className={`flex flex-col items-center rounded-xl px-2 py-1 transition-colors ${selected === i ? 'bg-indigo-600 text-white' : isSaved(t.lemma) ? 'bg-green-50' : 'hover:bg-indigo-50'}`}
+                >
+                  <span className="text-lg font-bold">{t.text}</span>
+                  <span {...textAttributes(nativeLanguage)} className={`text-xs ${selected === i ? 'text-indigo-100' : 'text-gray-400'}`}>{t.gloss}</span>
+                </button>
+              ))}
+            </div>
+
+            {token && (
+              <div className="bg-indigo-50 rounded-2xl p-4 flex items-center justify-between gap-3 animate-in fade-in">
+                <div>
+                  <p {...textAttributes(targetLanguage)} className="font-black text-gray-900">{token.lemma}</p>
+                  <p className="text-sm text-gray-500">
+                    {token.partOfSpeech && <span className="font-bold uppercase text-xs tracking-wider text-indigo-500 mr-2">{token.partOfSpeech}</span>}
+                    {token.gloss}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => onOpenToken(token)} title="Open entry" className="p-2 bg-white rounded-full text-indigo-600 shadow-sm">
+                    <SearchIcon className="w-5 h-5" />
+                  </button>
+                  {isSaved(token.lemma) ? (
+                    <span className="px-3 py-2 rounded-full text-sm font-bold bg-green-100 text-green-700">Saved</span>
+                  ) : (
+                    <button
+                      onClick={() => saveToken(token)}
+                      disabled={saving[token.lemma] === 'saving'}
+                      className="flex items-center gap-1 px-3 py-2 rounded-full text-sm font-bold bg-indigo-600 text-white disabled:opacity-50"
+                    >
+                      <SaveIcon className="w-4 h-4" />
+                      {saving[token.lemma] === 'saving' ? 'Saving...' : saving[token.lemma] === 'failed' ? 'Retry' : 'Save'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {analysis.translation && (
+              <div>
+                <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-1">Translation</h3>
+                <p {...textAttributes(nativeLanguage)} className="text-xl text-gray-700 leading-relaxed font-medium">{analysis.translation}</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {analysis && analysis.grammar.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider ml-2">Grammar</h3>
+          {analysis.grammar.map((point, i) => (
+            <div key={i} className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+              <p className="font-bold text-gray-800 mb-1">{point.title}</p>
+              <p {...textAttributes(nativeLanguage)} className="text-gray-600 leading-relaxed">{point.explanation}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isStreaming && analysis && (
+        <p className="text-center text-indigo-400 font-bold text-sm uppercase tracking-widest animate-pulse">Still explaining...</p>
+      )}
+
+      <button onClick={onLookupAsWord} className="w-full text-sm font-bold text-gray-400 hover:text-indigo-600">
+        Look this up as a single entry instead
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Language, LearnerProfile } from '../types';
+import { LanguagePicker } from './LanguagePicker';
+import { LearnerProfileForm } from './LearnerProfileForm';
+import { getReminderPermission } from '../services/reminders';
+import { ChevronLeftIcon } from './Icons';
+
+interface SettingsViewProps {
+  nativeLang: Language;
+  targetLang: Language;
+  profile: LearnerProfile;
+  onSave: (native: Language, target: Language, profile: LearnerProfile) => void;
+  remindersEnabled: boolean;
+  onToggleReminders: (enabled: boolean) => Promise<void>; // Applies at once, not on Save
+  onBack: () => void;
+}
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ nativeLang, targetLang, profile, onSave, remindersEnabled, onToggleReminders, onBack }) => {
+  const [native, setNative] = useState(nativeLang);
+  const [target, setTarget] = useState(targetLang);
+  const [draft, setDraft] = useState(profile);
+  const [isTogglingReminders, setIsTogglingReminders] = useState(false);
+  const permission = getReminderPermission();
+
+  const toggleReminders = async () => {
+    setIsTogglingReminders(true);
+    try {
+      await onToggleReminders(!remindersEnabled);
+    } finally {
+      setIsTogglingReminders(false);
+    }
+  };
+
+  const isSamePair = native.code === target.code;
+  const isUnchanged = native.code === nativeLang.code && target.code === targetLang.code && draft === profile;
+
+  return (
+    <div className="space-y-6 animate-in fade-in">
+      <div className="flex items-center gap-3">
+        <button onClick={onBack} className="p-2 bg-white rounded-full shadow text-gray-600">
+          <ChevronLeftIcon />
+        </button>
+        <h2 className="text-2xl font-black text-gray-800">Settings</h2>
+      </div>
+
+      <div className="bg-white p-6 rounded-3xl shadow-sm space-y-6">
+        <LanguagePicker label="I speak" value={native} onChange={setNative} accent="indigo" />
+        <LanguagePicker label="I want to learn" value={target} onChange={setTarget} disabledCode={native.code} accent="pink" />
+
+        {isSamePair && (
+          <p className="text-sm font-bold text-red-600">Pick a language to learn that's different from the one you speak.</p>
+        )}
+        <p className="text-sm text-gray-400">Each language pair keeps its own notebook, so switching won't lose any saved words.</p>
+
+        <LearnerProfileForm profile={draft} targetLanguage={target} onChange={setDraft} />
+
+        <button
+          onClick={() => onSave(native, target, draft)}
+          disabled={isSamePair || isUnchanged}
+          className="w-full bg-indigo-600 text-white font-bold py-3 rounded-2xl shadow-lg active:scale-95 transition-transform disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      <div className="bg-white p-6 rounded-3xl shadow-sm space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="font-bold text-gray-800">Review reminders</p>
+            <p className="text-sm text-gray-400">Get a notification when flashcards are due.</p>
+          </div>
+          <button
+            onClick={toggleReminders}
+            disabled={isTogglingReminders || permission === 'unsupported'}
+            role="switch"
+            aria-checked={remindersEnabled}
+            className={`w-14 h-8 rounded-full p-1 transition-colors shrink-0 disabled:opacity-50 ${remindersEnabled ? 'bg-indigo-600' : 'bg-gray-200'}`}
+          >
+            <span className={`block w-6 h-6 bg-white rounded-full shadow transition-transform ${remindersEnabled ? 'translate-x-6' : ''}`} />
+          </button>
+        </div>
+        {permission === 'unsupported' && (
+          <p className="text-sm font-bold text-gray-500">This browser can't show notifications.</p>
+        )}
+        {permission === 'denied' && (
+          <p className="text-sm font-bold text-red-600">Notifications are blocked. Allow them for this site in your browser settings, then try again.</p>
+        )}
+      </div>
+    </div>
+  );
+};
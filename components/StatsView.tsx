@@ -0,0 +1,107 @@
+import React from 'react';
+import { ActivityEvent, DictionaryEntry, Language } from '../types';
+import {
+  getActivityCalendar, getQuizAccuracy, getRetention, getReviewForecast, getStreaks, getWordCounts,
+} from '../services/statsService';
+import { ChevronLeftIcon, DownloadIcon } from './Icons';
+
+interface StatsViewProps {
+  events: ActivityEvent[]; // The current language pair's log, oldest first
+  entries: DictionaryEntry[]; // The current language pair's notebook
+  targetLanguage: Language;
+  onExport: () => void; // Downloads the whole log
+  onBack: () => void;
+}
+
+// Heatmap shades by activity that day
+const HEAT_CLASSES = ['bg-gray-100', 'bg-indigo-200', 'bg-indigo-400', 'bg-indigo-600'];
+const heatClass = (count: number) => HEAT_CLASSES[count === 0 ? 0 : count < 5 ? 1 : count < 15 ? 2 : 3];
+
+const formatDay = (day: number) => new Date(day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+const formatRate = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
+
+const StatTile: React.FC<{ label: string; value: string | number; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+    <p className="font-bold text-gray-400 uppercase text-xs tracking-wider">{label}</p>
+    <p className="text-3xl font-black text-gray-900">{value}</p>
+    {detail && <p className="text-xs text-gray-400 font-medium">{detail}</p>}
+  </div>
+);
+
+// The progress dashboard: streaks, how many words have stuck, how well
+// reviews are going and what's coming up, all computed from the local log
+export const StatsView: React.FC<StatsViewProps> = ({ events, entries, targetLanguage, onExport, onBack }) => {
+  const now = Date.now();
+  const streaks = getStreaks(events, now);
+  const words = getWordCounts(entries);
+  const retention = getRetention(events, now);
+  const quiz = getQuizAccuracy(events, now);
+  const forecast = getReviewForecast(entries, now);
+  const calendar = getActivityCalendar(events, now);
+  const busiestDay = Math.max(1, ...forecast.map(f => f.count));
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in">
+      <div className="flex items-center gap-3">
+        <button onClick={onBack} className="p-2 bg-white rounded-full shadow text-gray-600">
+          <ChevronLeftIcon />
+        </button>
+        <h2 className="text-2xl font-black text-gray-800">{targetLanguage.flag} Progress</h2>
+      </div>
+
+      <div className="bg-gradient-to-r from-orange-400 to-pink-500 text-white p-6 rounded-3xl shadow-lg flex items-center justify-between">
+        <div>
+          <p className="font-bold uppercase text-xs tracking-wider opacity-80">Current streak</p>
+          <p className="text-5xl font-black">{streaks.current} {streaks.current === 1 ? 'day' : 'days'} 🔥</p>
+        </div>
+        <div className="text-right">
+          <p className="font-bold uppercase text-xs tracking-wider opacity-80">Best</p>
+          <p className="text-2xl font-black">{streaks.longest}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <StatTile label="Learned" value={words.learned} detail={`of ${words.total} saved words`} />
+        <StatTile label="Mature" value={words.mature} detail="Remembered for 3+ weeks" />
+        <StatTile label="Retention" value={formatRate(retention.rate)} detail={`${retention.reviews} reviews, last 30 days`} />
+        <StatTile label="Quiz accuracy" value={formatRate(quiz.rate)} detail={`${quiz.answers} answers, last 30 days`} />
+      </div>
+
+      <div className="bg-white p-5 rounded-3xl shadow-sm border border-gray-100">
+        <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-4">Reviews this week</h3>
+        <div className="flex items-end justify-between gap-2 h-32">
+          {forecast.map((f, i) => (
+            <div key={f.day} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+              <span className="text-xs font-bold text-gray-500">{f.count}</span>
+              <div className="w-full bg-indigo-500 rounded-t-lg" style={{ height: `${(f.count / busiestDay) * 100}%`, minHeight: f.count > 0 ? 4 : 0 }} />
+              <span className="text-xs text-gray-400 font-medium">
+                {i === 0 ? 'Today' : new Date(f.day).toLocaleDateString(undefined, { weekday: 'short' })}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-3xl shadow-sm border border-gray-100">
+        <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-4">Activity</h3>
+        <div className="grid grid-rows-7 grid-flow-col gap-1 justify-start">
+          {calendar.map(d => (
+            <div
+              key={d.day}
+              title={`${formatDay(d.day)}: ${d.count} ${d.count === 1 ? 'activity' : 'activities'}`}
+              className={`w-4 h-4 rounded ${heatClass(d.count)}`}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-3">Lookups, saved words, reviews and quiz answers over the last 12 weeks.</p>
+      </div>
+
+      <button
+        onClick={onExport}
+        className="w-full flex items-center justify-center gap-2 bg-white text-indigo-600 font-bold py-3 rounded-2xl shadow-sm border border-gray-100"
+      >
+        <DownloadIcon className="w-5 h-5" /> Export activity log
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { CEFRLevel, Language, SavedStory, StoryLength, StoryOptions } from '../types';
+import { CEFR_LEVELS, textAttributes } from '../constants';
+import { DEFAULT_STORY_OPTIONS, STORY_GENRES, STORY_LENGTHS } from '../services/storyService';
+import { ChevronLeftIcon, SparklesIcon } from './Icons';
+
+interface StoryLibraryProps {
+  stories: SavedStory[]; // The current language pair's stories, newest first
+  wordCount: number; // Words in the pair's notebook
+  targetLanguage: Language;
+  level: CEFRLevel; // The learner's level, from their profile
+  onGenerate: (options: StoryOptions) => void;
+  onOpen: (story: SavedStory) => void;
+  onBack: () => void;
+}
+
+const MIN_WORDS = 3;
+
+const chipClass = (isActive: boolean) =>
+  `px-3 py-1 rounded-full text-sm font-bold border transition-colors ${isActive ? 'bg-pink-500 text-white border-pink-500' : 'bg-white text-gray-600 border-gray-200'}`;
+
+// Story Time's start page: pick a level, length and genre for a new story,
+// or reopen one from the history
+export const StoryLibrary: React.FC<StoryLibraryProps> = ({ stories, wordCount, targetLanguage, level, onGenerate, onOpen, onBack }) => {
+  // Start from whatever the last story used, at the learner's current level
+  const [options, setOptions] = useState<StoryOptions>(() => ({ ...(stories.find(s => s.options)?.options || DEFAULT_STORY_OPTIONS), level }));
+  const update = (changes: Partial<StoryOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="space-y-6 animate-in fade-in">
+      <button onClick={onBack} className="flex items-center text-gray-500 font-bold text-sm">
+        <ChevronLeftIcon className="w-4 h-4 mr-1"/> Back
+      </button>
+
+      <div className="bg-white p-6 rounded-3xl shadow-xl border-t-8 border-pink-500 space-y-5">
+        <h2 className="text-2xl font-black text-gray-900">Story Time</h2>
+
+        <div>
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2">Level</h3>
+          <div className="flex flex-wrap gap-2">
+            {CEFR_LEVELS.map(({ level, label }) => (
+              <button key={level} onClick={() => update({ level })} title={label} className={chipClass(options.level === level)}>
+                {level}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2">Length</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(STORY_LENGTHS) as StoryLength[]).map(length => (
+              <button key={length} onClick={() => update({ length })} className={chipClass(options.length === length)}>
+                {STORY_LENGTHS[length].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2">Genre</h3>
+          <div className="flex flex-wrap gap-2">
+            {STORY_GENRES.map(genre => (
+              <button key={genre} onClick={() => update({ genre })} className={chipClass(options.genre === genre)}>
+                {genre}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={() => onGenerate(options)}
+          disabled={wordCount < MIN_WORDS}
+          className="w-full bg-pink-500 text-white font-bold py-3 rounded-2xl shadow-lg flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-50"
+        >
+          <SparklesIcon className="w-5 h-5"/> Write my story
+        </button>
+        {wordCount < MIN_WORDS && (
+          <p className="text-sm text-gray-400 text-center">Add at least {MIN_WORDS} words to your notebook to create a story.</p>
+        )}
+      </div>
+
+      {stories.length > 0 && (
+        <div>
+          <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2">Your stories</h3>
+          <div className="bg-white rounded-3xl shadow-sm divide-y divide-gray-100">
+            {stories.map(story => (
+              <button key={story.id} onClick={() => onOpen(story)} className="w-full text-left p-4 hover:bg-gray-50">
+                <p {...textAttributes(targetLanguage)} className="font-bold text-gray-800">{story.title}</p>
+                <p className="text-sm text-gray-400">
+                  {new Date(story.createdAt).toLocaleDateString()}
+                  {story.options && ` · ${story.options.level} · ${story.options.genre}`}
+                  {` · ${story.sentences.length} sentences`}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
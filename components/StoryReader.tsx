@@ -0,0 +1,214 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { DictionaryEntry, Language, SavedStory, StoryResult } from '../types';
+import { textAttributes } from '../constants';
+import { normalizeTerm } from '../services/lookupCache';
+import { markStoryWords } from '../services/storyService';
+import {
+  SLOW_RATE, getNarrationState, getPlaybackState, narrate, pauseNarration, resumeNarration, setPlaybackRate, stopAudio, subscribeToPlayback,
+} from '../services/audioService';
+import { ChevronLeftIcon, PauseIcon, PlayIcon, SpeakerIcon, StopIcon } from './Icons';
+
+interface StoryReaderProps {
+  story: StoryResult | SavedStory | null; // Null until the first words stream in
+  isGenerating: boolean;
+  entries: DictionaryEntry[]; // The current language pair's notebook
+  nativeLanguage: Language;
+  targetLanguage: Language;
+  onOpenWord: (entry: DictionaryEntry) => void;
+  onBack: () => void;
+}
+
+// A story with its translation a tap away. Notebook words are highlighted
+// and link back to their entries; comprehension questions follow the text.
+// Narration goes sentence by sentence, highlighting the one being read;
+// tapping a sentence replays it, or jumps there while the story is playing.
+export const StoryReader: React.FC<StoryReaderProps> = ({
+  story, isGenerating, entries, nativeLanguage, targetLanguage, onOpenWord, onBack,
+}) => {
+  const [showAll, setShowAll] = useState(false);
+  const [answers, setAnswers] = useState<Record<number, number>>({});
+  const narration = useSyncExternalStore(subscribeToPlayback, getNarrationState);
+  const playback = useSyncExternalStore(subscribeToPlayback, getPlaybackState);
+
+  const narrationKey = story && 'id' in story ? story.id : null;
+  const isNarrating = narrationKey !== null && narration.key === narrationKey && narration.status !== 'idle';
+
+  // Don't keep reading a story that is no longer on screen
+  useEffect(() => () => {
+    const current = getNarrationState();
+    if (narrationKey !== null && current.key === narrationKey && current.status !== 'idle') stopAudio();
+  }, [narrationKey]);
+
+  const byTerm = new Map<string, DictionaryEntry>(entries.map(entry => [normalizeTerm(entry.term), entry]));
+  const options = story && 'options' in story ? story.options : undefined;
+  const hasTranslations = !!story?.sentences.some(sentence => sentence.native);
+
+  // Every notebook word the story uses, in order of first appearance
+  const used = Array.from(new Map<string, DictionaryEntry>(
+    (story?.sentences || []).flatMap(sentence => sentence.words)
+      .map(word => byTerm.get(normalizeTerm(word.term)))
+      .filter((entry): entry is DictionaryEntry => !!entry)
+      .map(entry => [entry.id, entry] as const)
+  ).values());
+
+  const readFrom = (index: number, single: boolean) => {
+    if (!story || narrationKey === null) return;
+    narrate(narrationKey, story.sentences.map(sentence => sentence.target), targetLanguage, index, single);
+  };
+
+  const tapSentence = (index: number) => {
+    if (isGenerating) return;
+    readFrom(index, !(isNarrating && !narration.single));
+  };
+
+  const questions = story?.questions || [];
+  const correctCount = questions.filter((q, i) => answers[i] === q.answer).length;
+
+  return (
+    <div className="space-y-6 animate-in fade-in">
+      <button onClick={onBack} className="flex items-center text-gray-500 font-bold text-sm">
+        <ChevronLeftIcon className="w-4 h-4 mr-1"/> Back
+      </button>
+
+      {!story ? (
+        <div className="text-center py-20 animate-pulse">
+          <div className="text-6xl mb-4">🧙‍♂️</div>
+          <h3 className="text-xl font-bold text-gray-800">Weaving a story...</h3>
+          <p className="text-gray-500">Combining your vocabulary into magic.</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white p-8 rounded-3xl shadow-xl border-t-8 border-pink-500">
+            {options && (
+              <p className="text-xs font-bold text-pink-500 uppercase tracking-wider mb-2">{options.level} · {options.genre}</p>
+            )}
+            <h2 {...textAttributes(targetLanguage)} className="text-3xl font-black mb-6 text-gray-900">{story.title}</h2>
+
+            <div className="space-y-3">
+              {story.sentences.map((sentence, index) => (
+                <div key={index} className={`rounded-xl px-2 -mx-2 transition-colors ${isNarrating && narration.index === index ? 'bg-yellow-100' : ''}`}>
+                  <p {...textAttributes(targetLanguage)} onClick={() => tapSentence(index)} className="text-lg text-gray-700 leading-loose cursor-pointer">
+                    {markStoryWords(sentence).map((part, i) => {
+                      const entry = part.term ? byTerm.get(normalizeTerm(part.term)) : undefined;
+                      return entry ? (
+                        <button
+                          key={i}
+                          onClick={(e) => { e.stopPropagation(); onOpenWord(entry); }}
+                          title={entry.definition}
+                          className="font-bold text-pink-600 bg-pink-50 rounded px-0.5 underline decoration-pink-300 decoration-2 underline-offset-4"
+                        >
+                          {part.text}
+                        </button>
+                      ) : (
+                        <span key={i}>{part.text}</span>
+                      );
+                    })}
+                  </p>
+                  {sentence.native && showAll && (
+                    <p {...textAttributes(nativeLanguage)} className="text-sm text-gray-400 italic">{sentence.native}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isGenerating ? (
+              <p className="mt-8 text-pink-400 font-bold text-sm uppercase tracking-widest animate-pulse">Still writing...</p>
+            ) : (
+              <div className="mt-8 flex flex-wrap gap-2">
+                {!isNarrating ? (
+                  <button onClick={() => readFrom(0, false)} className="flex items-center gap-2 text-pink-600 font-bold bg-pink-50 px-4 py-2 rounded-full">
+                    <SpeakerIcon className="w-5 h-5"/> Read to me
+                  </button>
+                ) : (
+                  <>
+                    {narration.status === 'paused' ? (
+                      <button onClick={resumeNarration} className="flex items-center gap-2 text-pink-600 font-bold bg-pink-50 px-4 py-2 rounded-full">
+                        <PlayIcon className="w-4 h-4"/> Resume
+                      </button>
+                    ) : (
+                      <button onClick={pauseNarration} className="flex items-center gap-2 text-pink-600 font-bold bg-pink-50 px-4 py-2 rounded-full">
+                        <PauseIcon className="w-4 h-4"/> Pause
+                      </button>
+                    )}
+                    <button onClick={stopAudio} title="Stop" className="text-pink-600 bg-pink-50 p-2 rounded-full">
+                      <StopIcon className="w-5 h-5"/>
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => setPlaybackRate(playback.rate === SLOW_RATE ? 1 : SLOW_RATE)}
+                  title="Read slowly, for shadowing"
+                  className={`font-bold px-4 py-2 rounded-full ${playback.rate === SLOW_RATE ? 'bg-pink-500 text-white' : 'text-gray-600 bg-gray-100'}`}
+                >
+                  Slow
+                </button>
+                <p className="w-full text-xs text-gray-400">Tap a sentence to hear it again.</p>
+                {hasTranslations && (
+                  <button onClick={() => setShowAll(!showAll)} className="text-gray-600 font-bold bg-gray-100 px-4 py-2 rounded-full">
+                    {showAll ? 'Hide translations' : 'Show translations'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {used.length > 0 && (
+            <div>
+              <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2">Your words in this story</h3>
+              <div className="flex flex-wrap gap-2">
+                {used.map(entry => (
+                  <button
+                    key={entry.id}
+                    {...textAttributes(targetLanguage)}
+                    onClick={() => onOpenWord(entry)}
+                    className="px-3 py-1 rounded-full text-sm font-bold bg-pink-50 text-pink-700 border border-pink-100"
+                  >
+                    {entry.term}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!isGenerating && questions.length > 0 && (
+            // --- Comprehension ---
+            <div className="bg-white p-6 rounded-3xl shadow-sm border border-gray-100 space-y-5">
+              <div className="flex items-center justify-between">
+                <h3 className="font-bold text-gray-800">Did you follow?</h3>
+                {Object.keys(answers).length === questions.length && (
+                  <span className="text-sm font-bold text-pink-600">{correctCount} / {questions.length} correct</span>
+                )}
+              </div>
+              {questions.map((question, q) => (
+                <div key={q} className="space-y-2">
+                  <p {...textAttributes(nativeLanguage)} className="font-medium text-gray-700">{question.question}</p>
+                  <div className="grid gap-2">
+                    {question.choices.map((choice, c) => {
+                      const isAnswered = answers[q] !== undefined;
+                      const style = !isAnswered
+                        ? 'border-gray-100 hover:border-gray-200'
+                        : c === question.answer
+                          ? 'border-green-500 bg-green-50'
+                          : c === answers[q] ? 'border-red-400 bg-red-50' : 'border-gray-100 opacity-60';
+                      return (
+                        <button
+                          key={c}
+                          {...textAttributes(nativeLanguage)}
+                          onClick={() => setAnswers(prev => ({ ...prev, [q]: c }))}
+                          disabled={isAnswered}
+                          className={`text-left px-4 py-2 rounded-2xl border-2 text-sm font-medium transition-colors ${style}`}
+                        >
+                          {choice}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
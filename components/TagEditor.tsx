@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { FolderIcon, TagIcon } from './Icons';
+
+interface TagEditorProps {
+  tags: string[];
+  folder?: string;
+  knownTags: string[]; // Offered as suggestions
+  knownFolders: string[];
+  onChange: (tags: string[], folder?: string) => void;
+}
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, folder, knownTags, knownFolders, onChange }) => {
+  const [tagInput, setTagInput] = useState('');
+  const [folderInput, setFolderInput] = useState(folder || '');
+
+  // Another entry, or the folder changed elsewhere
+  useEffect(() => setFolderInput(folder || ''), [folder]);
+
+  // Saved on blur or Enter rather than per keystroke, trimmed so "Travel "
+  // and "Travel" are the same folder
+  const commitFolder = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const name = folderInput.trim();
+    setFolderInput(name);
+    if (name !== (folder || '')) onChange(tags, name || undefined);
+  };
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeLabel(tagInput);
+    setTagInput('');
+    if (tag && !tags.includes(tag)) onChange([...tags, tag], folder);
+  };
+
+  const suggestions = knownTags.filter(tag => !tags.includes(tag)).slice(0, 6);
+
+  return (
+    <div className="bg-white rounded-3xl p-5 shadow-sm border border-gray-100 space-y-4">
+      <div>
+        <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2 flex items-center gap-1">
+          <FolderIcon className="w-4 h-4" /> Folder
+        </h3>
+        <form onSubmit={commitFolder}>
+          <input
+            list="lingopop-folders"
+            value={folderInput}
+            onChange={(e) => setFolderInput(e.target.value)}
+            onBlur={() => commitFolder()}
+            placeholder="e.g. Travel"
+            className="w-full bg-gray-100 rounded-xl px-3 py-2 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </form>
+        <datalist id="lingopop-folders">
+          {knownFolders.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+
+      <div>
+        <h3 className="font-bold text-gray-400 uppercase text-xs tracking-wider mb-2 flex items-center gap-1">
+          <TagIcon className="w-4 h-4" /> Tags
+        </h3>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onChange(tags.filter(t => t !== tag), folder)}
+              className="px-3 py-1 rounded-full bg-indigo-100 text-indigo-700 text-sm font-bold"
+            >
+              #{tag} ✕
+            </button>
+          ))}
+          {suggestions.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onChange([...tags, tag], folder)}
+              className="px-3 py-1 rounded-full border border-dashed border-gray-300 text-gray-400 text-sm"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+        <form onSubmit={addTag}>
+          <input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Add a tag, e.g. food"
+            className="w-full bg-gray-100 rounded-xl px-3 py-2 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </form>
+      </div>
+    </div>
+  );
+};
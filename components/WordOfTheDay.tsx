@@ -0,0 +1,47 @@
+import React from 'react';
+import { DictionaryEntry, Language } from '../types';
+import { textAttributes } from '../constants';
+import { playAudio } from '../services/audioService';
+import { SaveIcon, SpeakerIcon } from './Icons';
+
+interface WordOfTheDayProps {
+  entry: DictionaryEntry;
+  isSaved: boolean; // False for a suggestion the learner hasn't saved yet
+  targetLanguage: Language;
+  onOpen: () => void;
+  onSave: () => void;
+}
+
+export const WordOfTheDay: React.FC<WordOfTheDayProps> = ({ entry, isSaved, targetLanguage, onOpen, onSave }) => (
+  <div className="bg-white rounded-3xl shadow-xl overflow-hidden text-left animate-in fade-in slide-in-from-bottom-4">
+    <div className="bg-gradient-to-r from-indigo-500 to-pink-500 px-6 py-3 flex items-center justify-between text-white">
+      <span className="font-bold uppercase text-xs tracking-wider">Word of the day</span>
+      <span className="text-xs font-bold opacity-80">{isSaved ? 'From your notebook' : 'New for you'}</span>
+    </div>
+    <div className="p-6 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p {...textAttributes(targetLanguage)} className="text-3xl font-black text-gray-900">{entry.term}</p>
+          {entry.phonetic && <p className="text-gray-400 font-medium">{entry.phonetic}</p>}
+        </div>
+        <button onClick={() => playAudio(entry.term, targetLanguage)} className="p-3 bg-indigo-100 rounded-full text-indigo-600 hover:bg-indigo-200 active:scale-95 transition-colors shrink-0">
+          <SpeakerIcon />
+        </button>
+      </div>
+      <p className="text-gray-700 leading-relaxed">{entry.definition}</p>
+      {entry.examples[0] && (
+        <p {...textAttributes(targetLanguage)} className="text-sm text-gray-500 italic">{entry.examples[0].target}</p>
+      )}
+      <div className="flex gap-2 pt-2">
+        <button onClick={onOpen} className="flex-grow bg-indigo-600 text-white font-bold py-3 rounded-2xl shadow-lg active:scale-95 transition-transform">
+          Learn more
+        </button>
+        {!isSaved && (
+          <button onClick={onSave} title="Save to notebook" className="px-4 bg-indigo-50 text-indigo-600 rounded-2xl active:scale-95 transition-transform">
+            <SaveIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </div>
+  </div>
+);
@@ -1,16 +1,53 @@
-import { Language } from './types';
+import { CEFRLevel, ExplanationStyle, Language, WritingScript } from './types';
 
 export const SUPPORTED_LANGUAGES: Language[] = [
-  { code: 'en', name: 'English', flag: '🇬🇧' },
-  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
-  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
-  { code: 'fr', name: 'French', flag: '🇫🇷' },
-  { code: 'de', name: 'German', flag: '🇩🇪' },
-  { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
-  { code: 'ko', name: 'Korean', flag: '🇰🇷' },
-  { code: 'pt', name: 'Portuguese', flag: '🇧🇷' },
-  { code: 'ru', name: 'Russian', flag: '🇷🇺' },
-  { code: 'it', name: 'Italian', flag: '🇮🇹' },
+  { code: 'en', name: 'English', nativeName: 'English', flag: '🇬🇧', script: 'latin', rtl: false, voice: 'Kore' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', flag: '🇪🇸', script: 'latin', rtl: false, voice: 'Puck' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文', flag: '🇨🇳', script: 'han', rtl: false, voice: 'Kore', romanization: 'Pinyin' },
+  { code: 'fr', name: 'French', nativeName: 'Français', flag: '🇫🇷', script: 'latin', rtl: false, voice: 'Aoede' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', flag: '🇩🇪', script: 'latin', rtl: false, voice: 'Charon' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', flag: '🇯🇵', script: 'japanese', rtl: false, voice: 'Leda', romanization: 'Hepburn' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', flag: '🇰🇷', script: 'hangul', rtl: false, voice: 'Zephyr', romanization: 'Revised Romanization' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', flag: '🇧🇷', script: 'latin', rtl: false, voice: 'Puck' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', flag: '🇷🇺', script: 'cyrillic', rtl: false, voice: 'Orus' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', flag: '🇮🇹', script: 'latin', rtl: false, voice: 'Aoede' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', flag: '🇸🇦', script: 'arabic', rtl: true, voice: 'Charon', romanization: 'ALA-LC' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', flag: '🇮🇳', script: 'devanagari', rtl: false, voice: 'Kore', romanization: 'IAST' },
 ];
 
+export const SCRIPT_NAMES: Record<WritingScript, string> = {
+  latin: 'Latin',
+  cyrillic: 'Cyrillic',
+  han: 'Chinese characters',
+  japanese: 'Kana & Kanji',
+  hangul: 'Hangul',
+  arabic: 'Arabic',
+  devanagari: 'Devanagari',
+};
+
+export const CEFR_LEVELS: { level: CEFRLevel; label: string }[] = [
+  { level: 'A1', label: 'Beginner' },
+  { level: 'A2', label: 'Elementary' },
+  { level: 'B1', label: 'Intermediate' },
+  { level: 'B2', label: 'Upper intermediate' },
+  { level: 'C1', label: 'Advanced' },
+  { level: 'C2', label: 'Proficient' },
+];
+
+export const EXPLANATION_STYLES: { style: ExplanationStyle; label: string; description: string }[] = [
+  { style: 'casual', label: 'Casual friend', description: 'Chatty and relaxed, light on jargon' },
+  { style: 'balanced', label: 'Patient teacher', description: 'Clear, with grammar terms where they help' },
+  { style: 'formal', label: 'Formal grammar', description: 'Precise, textbook terminology' },
+];
+
+export const INTEREST_SUGGESTIONS = ['Travel', 'Food', 'Music', 'Sports', 'Movies', 'Business', 'Science', 'Gaming', 'Nature', 'History'];
+
 export const MOCK_IMAGE_PLACEHOLDER = "https://picsum.photos/400/400";
+
+export const findLanguage = (code: string): Language | undefined =>
+  SUPPORTED_LANGUAGES.find(lang => lang.code === code);
+
+// Spread onto elements that show text in `language`, so right-to-left
+// scripts lay out correctly and browsers pick the right CJK glyphs
+export const textAttributes = (language?: Language) =>
+  language ? { lang: language.code, dir: language.rtl ? 'rtl' as const : 'ltr' as const } : {};
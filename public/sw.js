@@ -0,0 +1,173 @@
+// --- LingoPop service worker ---
+// Keeps the app shell available offline. The notebook, lookup cache and
+// synthesized audio already live in IndexedDB, so once the shell loads the
+// saved parts of the app work without a connection.
+//
+// Same-origin files are fetched network-first (so a deploy is picked up on
+// the next load) and fall back to the cache; the CDN scripts, styles and
+// fonts the page loads are served from the cache and refreshed behind it.
+// AI requests are never cached. The shell, and the scripts and styles
+// index.html pulls in, are cached at install so the very first visit already
+// works offline afterwards; the runtime cache is capped.
+//
+// It also shows review reminders (see services/reminders.ts).
+
+const CACHE_VERSION = "v2";
+const SHELL_CACHE = `lingopop-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `lingopop-runtime-${CACHE_VERSION}`;
+const REMINDER_CACHE = "lingopop-reminders"; // Not versioned: survives shell updates
+
+const SHELL_FILES = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+
+const CDN_HOSTS = ["cdn.tailwindcss.com", "aistudiocdn.com", "fonts.googleapis.com", "fonts.gstatic.com"];
+
+const MAX_RUNTIME_ENTRIES = 120;
+
+// Every script, stylesheet and import-map URL index.html references. Built
+// asset names are hashed, so they can't be listed here ahead of time.
+const assetsOf = (html) => [...new Set(
+  Array.from(html.matchAll(/(?:src|href)="([^"]+)"|"(https:\/\/[^"]+)"/g), (match) => match[1] || match[2])
+    .map((url) => new URL(url, self.location.origin))
+    .filter((url) => url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname))
+    .map((url) => url.href)
+)];
+
+// Cross-origin responses come back opaque, which `cache.add` refuses, so
+// these are fetched and stored one by one. A missing asset doesn't fail the
+// install; it's picked up at runtime instead.
+const precacheAsset = async (cache, url) => {
+  const isSameOrigin = new URL(url).origin === self.location.origin;
+  const response = await fetch(url, isSameOrigin ? {} : { mode: "no-cors" });
+  if (response.ok || response.type === "opaque") await cache.put(url, response);
+};
+
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_FILES);
+  const html = await (await cache.match("/index.html")).text();
+  await Promise.allSettled(assetsOf(html).map((url) => precacheAsset(cache, url)));
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell());
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => ![SHELL_CACHE, RUNTIME_CACHE, REMINDER_CACHE].includes(key)).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Drops the oldest entries; Cache API keys come back in insertion order
+const trimCache = async (cache) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_RUNTIME_ENTRIES)).map((key) => cache.delete(key)));
+};
+
+const putRuntime = async (cache, request, response) => {
+  await cache.put(request, response);
+  await trimCache(cache);
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) putRuntime(cache, request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    // Every route is the same single-page app
+    if (!cached && request.mode === "navigate") return caches.match("/index.html");
+    if (!cached) throw error;
+    return cached;
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await caches.match(request); // Precached at install, or from an earlier visit
+  const refresh = fetch(request)
+    .then((response) => {
+      // CDN responses without CORS are opaque (status 0) but still usable
+      if (response.ok || response.type === "opaque") putRuntime(cache, request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || refresh;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// --- Review Reminders ---
+// The page posts the next due time; it's kept in the Cache API because a
+// worker's globals are lost whenever the browser stops it.
+
+const REMINDER_KEY = "/reminder-state.json";
+
+const readReminder = async () => {
+  const cached = await (await caches.open(REMINDER_CACHE)).match(REMINDER_KEY);
+  return cached ? cached.json() : { dueAt: null, count: 0, notifiedFor: null };
+};
+
+const writeReminder = async (state) => {
+  const cache = await caches.open(REMINDER_CACHE);
+  await cache.put(REMINDER_KEY, new Response(JSON.stringify(state), { headers: { "Content-Type": "application/json" } }));
+};
+
+// Notifies once per due time, and not at all while the app is on screen
+const notifyIfDue = async () => {
+  const state = await readReminder();
+  if (state.dueAt === null || state.dueAt > Date.now() || state.notifiedFor === state.dueAt) return;
+
+  const windows = await self.clients.matchAll({ type: "window" });
+  if (windows.some((client) => client.visibilityState === "visible")) return;
+
+  await self.registration.showNotification("Time to review! 🧠", {
+    body: state.count === 1 ? "1 flashcard is ready for review." : `${state.count} flashcards are ready for review.`,
+    icon: "/icon.svg",
+    tag: "due-reminder", // Replaces an earlier reminder rather than stacking
+    data: { url: "/flashcards" },
+  });
+  await writeReminder({ ...state, notifiedFor: state.dueAt });
+};
+
+self.addEventListener("message", (event) => {
+  const message = event.data || {};
+  if (message.type === "reminder-schedule") {
+    event.waitUntil(readReminder().then((state) => writeReminder({ ...state, dueAt: message.dueAt, count: message.count })));
+  } else if (message.type === "reminder-due") {
+    event.waitUntil(notifyIfDue());
+  }
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === "due-reminder") event.waitUntil(notifyIfDue());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || "/";
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((windows) => {
+      const open = windows[0];
+      if (open) return open.navigate(url).then((client) => (client || open).focus());
+      return self.clients.openWindow(url);
+    })
+  );
+});
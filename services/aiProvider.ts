@@ -0,0 +1,72 @@
+import type { Schema } from "@google/genai";
+import type { ChatMessage } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+// --- Provider Contract ---
+// Everything the app needs from a model backend. geminiService builds prompts
+// and shapes results; adapters only move bytes to and from a model.
+
+// Identifies a structured request so adapters (notably the mock) can tell
+// requests apart without parsing prompts.
+export type AITask = "lookup" | "story" | "pronunciation" | "ocr" | "sentence" | "suggestion";
+
+export interface JSONRequest {
+  task: AITask;
+  prompt: string;
+  schema: Schema;
+  // Audio or images the prompt refers to, sent ahead of it
+  media?: InlineMedia[];
+  // The values the prompt was built from, for adapters that don't call a model
+  params: Record<string, string>;
+}
+
+export interface InlineMedia {
+  mimeType: string;
+  data: string; // Base64
+}
+
+export interface ChatSession {
+  sendMessage(message: string): Promise<string>;
+  // Yields the reply text chunk by chunk as it is generated
+  sendMessageStream(message: string): AsyncIterable<string>;
+}
+
+export interface AIProvider {
+  name: string;
+  // Returns the raw JSON text produced for `schema`
+  generateJSON(request: JSONRequest): Promise<string>;
+  // Same as generateJSON, but yields the JSON text chunk by chunk
+  streamJSON(request: JSONRequest): AsyncIterable<string>;
+  generateImage(prompt: string): Promise<InlineMedia | null>;
+  // Returns Base64 16-bit mono PCM at 24kHz
+  synthesizeSpeech(text: string, voiceName: string): Promise<string>;
+  // `history` resumes an earlier conversation; it must alternate user/model
+  createChat(systemInstruction: string, history?: ChatMessage[]): ChatSession;
+}
+
+// --- Selection ---
+// Set AI_PROVIDER=mock in .env.local to run without network or an API key.
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    const name = process.env.AI_PROVIDER || "gemini";
+    activeProvider = PROVIDERS[name];
+    if (!activeProvider) {
+      throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}`);
+    }
+  }
+  return activeProvider;
+};
+
+// Lets tests or dev tooling swap the backend at runtime
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,281 @@
+import { Language } from "../types";
+import { getProvider } from "./aiProvider";
+import { withRetry } from "./retry";
+import { getStoredAudio, putStoredAudio, pruneStoredAudio } from "./storage";
+
+// --- Audio Helper Functions ---
+function decode(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function decodeAudioData(
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number, // e.g. 24000
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+const SAMPLE_RATE = 24000;
+const DEFAULT_VOICE = 'Kore';
+const MAX_STORED_CLIPS = 500;
+const MAX_DECODED_CLIPS = 50;
+
+// Global Audio Context (Lazy loaded)
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = async () => {
+  if (!audioContext) {
+    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: SAMPLE_RATE});
+  }
+  // Ensure context is running (mobile browsers suspend it)
+  if (audioContext.state === 'suspended') {
+    await audioContext.resume();
+  }
+  return audioContext;
+};
+
+// --- Speech Cache ---
+// Synthesized PCM is stored in IndexedDB by (voice, text), and decoded
+// buffers are kept in memory, so each phrase is synthesized at most once.
+
+const speechKey = (text: string, voiceName: string) => `${voiceName}|${text.trim()}`;
+
+// In-flight and decoded clips; insertion order is LRU order
+const decodedClips = new Map<string, Promise<AudioBuffer>>();
+
+const fetchPcm = async (text: string, voiceName: string): Promise<Uint8Array> => {
+  const key = speechKey(text, voiceName);
+  try {
+    const stored = await getStoredAudio(key);
+    if (stored) return new Uint8Array(stored.pcm);
+  } catch (error) {
+    console.warn("Audio cache unavailable:", error);
+  }
+
+  const pcm = decode(await withRetry(() => getProvider().synthesizeSpeech(text, voiceName)));
+  putStoredAudio({ key, pcm: pcm.buffer as ArrayBuffer, storedAt: Date.now() })
+    .then(() => pruneStoredAudio(MAX_STORED_CLIPS))
+    .catch(error => console.warn("Failed to store audio:", error));
+  return pcm;
+};
+
+const getSpeechBuffer = (text: string, voiceName: string): Promise<AudioBuffer> => {
+  const key = speechKey(text, voiceName);
+  const existing = decodedClips.get(key);
+  if (existing) {
+    decodedClips.delete(key);
+    decodedClips.set(key, existing);
+    return existing;
+  }
+
+  const clip = (async () => {
+    const pcm = await fetchPcm(text, voiceName);
+    return decodeAudioData(pcm, await getAudioContext(), SAMPLE_RATE, 1);
+  })();
+  // Failed clips are forgotten so the next click retries
+  clip.catch(() => decodedClips.delete(key));
+
+  decodedClips.set(key, clip);
+  if (decodedClips.size > MAX_DECODED_CLIPS) {
+    decodedClips.delete(decodedClips.keys().next().value!);
+  }
+  return clip;
+};
+
+const voiceFor = (language?: Language) => language?.voice || DEFAULT_VOICE;
+
+// Warms the cache for phrases the user is likely to play next
+export const preloadAudio = (texts: string[], language?: Language) => {
+  const voiceName = voiceFor(language);
+  texts.filter(text => text.trim()).forEach(text => {
+    getSpeechBuffer(text, voiceName).catch(error => console.warn("Audio preload failed:", error));
+  });
+};
+
+// --- Playback ---
+// One clip plays at a time: starting a new one stops the previous source.
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing';
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  text: string | null; // Last requested phrase, kept after it ends for replay
+  language?: Language; // Picks the voice, and the accent of the browser fallback
+  rate: number;
+}
+
+let playbackState: PlaybackState = { status: 'idle', text: null, rate: 1 };
+const listeners = new Set<() => void>();
+let currentSource: AudioBufferSourceNode | null = null;
+let playRequestId = 0;
+
+const setPlaybackState = (patch: Partial<PlaybackState>) => {
+  playbackState = { ...playbackState, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+export const getPlaybackState = () => playbackState;
+
+export const subscribeToPlayback = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Narration state sits here so playback can end it; the queue itself is in
+// the Narration section below
+export type NarrationStatus = 'idle' | 'playing' | 'paused';
+
+export interface NarrationState {
+  status: NarrationStatus;
+  key: string | null; // Identifies what is being read, e.g. a story id
+  sentences: string[];
+  index: number; // Sentence being read, or -1
+  single: boolean; // Stop after the current sentence
+}
+
+let narrationState: NarrationState = { status: 'idle', key: null, sentences: [], index: -1, single: false };
+let narrationLanguage: Language | undefined;
+
+const setNarrationState = (patch: Partial<NarrationState>) => {
+  narrationState = { ...narrationState, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+export const getNarrationState = () => narrationState;
+
+const stopCurrentSource = () => {
+  if (currentSource) {
+    currentSource.onended = null;
+    currentSource.stop();
+    currentSource = null;
+  }
+  window.speechSynthesis?.cancel();
+};
+
+export const stopAudio = () => {
+  playRequestId++; // Drop any clip still loading
+  stopCurrentSource();
+  setNarrationState({ status: 'idle', index: -1 });
+  setPlaybackState({ status: 'idle' });
+};
+
+// Plays one clip and calls `onEnded` if it finishes without being replaced
+const startClip = async (text: string, language: Language | undefined, onEnded?: () => void) => {
+  const requestId = ++playRequestId;
+  stopCurrentSource();
+  setPlaybackState({ status: 'loading', text, language });
+
+  try {
+    const audioBuffer = await getSpeechBuffer(text, voiceFor(language));
+    const ctx = await getAudioContext();
+    if (requestId !== playRequestId) return; // Superseded while loading
+
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.playbackRate.value = playbackState.rate;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      if (currentSource === source) {
+        currentSource = null;
+        setPlaybackState({ status: 'idle' });
+        onEnded?.();
+      }
+    };
+    currentSource = source;
+    source.start();
+    setPlaybackState({ status: 'playing' });
+
+  } catch (error) {
+    if (requestId !== playRequestId) return;
+    console.error("Audio generation failed:", error);
+    // Fallback to basic Web Speech API if the provider fails (e.g., quota or model issues)
+    const utterance = new SpeechSynthesisUtterance(text);
+    if (language) utterance.lang = language.code;
+    utterance.rate = playbackState.rate;
+    utterance.onend = () => {
+      if (requestId !== playRequestId) return;
+      setPlaybackState({ status: 'idle' });
+      onEnded?.();
+    };
+    window.speechSynthesis.speak(utterance);
+    setPlaybackState({ status: 'playing' });
+  }
+};
+
+// Playing a single phrase ends any narration in progress
+export const playAudio = async (text: string, language?: Language) => {
+  if (narrationState.status !== 'idle') setNarrationState({ status: 'idle', index: -1 });
+  await startClip(text, language);
+};
+
+export const replayAudio = () => {
+  if (playbackState.text) {
+    playAudio(playbackState.text, playbackState.language);
+  }
+};
+
+export const setPlaybackRate = (rate: number) => {
+  if (currentSource) currentSource.playbackRate.value = rate;
+  setPlaybackState({ rate });
+};
+
+// --- Narration ---
+// Reads a passage sentence by sentence. Each sentence is its own clip, so
+// playback starts as soon as the first is ready, the next few load while it
+// plays, and the UI can highlight the sentence being spoken.
+
+export const SLOW_RATE = 0.75;
+const NARRATION_LOOKAHEAD = 2;
+
+const readSentence = (index: number) => {
+  const { sentences, single } = narrationState;
+  if (index >= sentences.length) {
+    setNarrationState({ status: 'idle', index: -1 });
+    return;
+  }
+  setNarrationState({ status: 'playing', index });
+  preloadAudio(sentences.slice(index + 1, index + 1 + NARRATION_LOOKAHEAD), narrationLanguage);
+  startClip(sentences[index], narrationLanguage, () => {
+    if (single) setNarrationState({ status: 'idle', index: -1 });
+    else readSentence(index + 1);
+  });
+};
+
+// Starts reading at `startAt`. With `single`, only that sentence is read,
+// which is how a tapped sentence is replayed for shadowing.
+export const narrate = (key: string, sentences: string[], language?: Language, startAt = 0, single = false) => {
+  narrationLanguage = language;
+  setNarrationState({ key, sentences, single });
+  readSentence(startAt);
+};
+
+// Pausing stops the clip; resuming starts the interrupted sentence again
+export const pauseNarration = () => {
+  if (narrationState.status !== 'playing') return;
+  playRequestId++;
+  stopCurrentSource();
+  setNarrationState({ status: 'paused' });
+  setPlaybackState({ status: 'idle' });
+};
+
+export const resumeNarration = () => {
+  if (narrationState.status === 'paused') readSentence(narrationState.index);
+};
@@ -0,0 +1,22 @@
+import { ChatMessage, DictionaryEntry } from "../types";
+import { makeLookupKey } from "./lookupCache";
+import { getChatThread, putChatThread } from "./storage";
+
+// --- Chat Threads ---
+// Each word keeps one tutor conversation, stored under the same key as its
+// cached lookup so it follows the word whether or not it has been saved.
+// Only completed exchanges are kept, so a resumed session's history always
+// alternates user/model.
+
+const MAX_MESSAGES = 40; // Even, so trimming never splits an exchange
+
+const threadKey = (entry: DictionaryEntry) => makeLookupKey(entry.term, entry.nativeLang, entry.targetLang);
+
+export const loadThread = async (entry: DictionaryEntry): Promise<ChatMessage[]> =>
+  (await getChatThread(threadKey(entry)))?.messages || [];
+
+export const saveThread = (entry: DictionaryEntry, messages: ChatMessage[]): Promise<void> =>
+  putChatThread({ key: threadKey(entry), messages, updatedAt: Date.now() });
+
+export const appendExchange = (messages: ChatMessage[], question: string, answer: string): ChatMessage[] =>
+  [...messages, { role: "user" as const, text: question }, { role: "model" as const, text: answer }].slice(-MAX_MESSAGES);
@@ -0,0 +1,25 @@
+// --- Connectivity ---
+// navigator.onLine only knows whether there is a network at all, not whether
+// the AI service is reachable, so callers still treat NetworkErrors as
+// offline.
+
+export const getIsOnline = (): boolean => navigator.onLine;
+
+export const subscribeToConnectivity = (listener: () => void) => {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+};
+
+// The worker caches the app shell (see public/sw.js); the notebook and audio
+// are already in IndexedDB
+export const registerServiceWorker = () => {
+  if (!("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js")
+      .catch(error => console.warn("Service worker registration failed:", error));
+  });
+};
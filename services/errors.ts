@@ -0,0 +1,94 @@
+// --- Typed AI Errors ---
+// Adapters and validators throw these so the UI can tell the user what
+// actually went wrong, and so retries only happen when they can help.
+
+export type AIErrorKind = 'quota' | 'safety' | 'parse' | 'network' | 'unavailable' | 'unknown';
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  retryable: boolean;
+  cause?: unknown;
+
+  constructor(kind: AIErrorKind, message: string, retryable: boolean, cause?: unknown) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+// Rate limited or out of quota (HTTP 429 / RESOURCE_EXHAUSTED)
+export class QuotaError extends AIError {
+  constructor(message = 'The AI service is busy or out of quota.', cause?: unknown) {
+    super('quota', message, true, cause);
+    this.name = 'QuotaError';
+  }
+}
+
+// The prompt or response was blocked by the model's safety filters
+export class SafetyBlockError extends AIError {
+  constructor(message = 'The request was blocked by safety filters.', cause?: unknown) {
+    super('safety', message, false, cause);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+// The model answered, but not in the shape we asked for
+export class ParseError extends AIError {
+  constructor(message = 'The AI response was malformed.', cause?: unknown) {
+    super('parse', message, true, cause);
+    this.name = 'ParseError';
+  }
+}
+
+// The request never got an answer: no connection, or the fetch itself failed
+export class NetworkError extends AIError {
+  constructor(message = 'Could not reach the AI service.', cause?: unknown) {
+    super('network', message, true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+// The service was reached but is down or overloaded (HTTP 5xx)
+export class ServiceUnavailableError extends AIError {
+  constructor(message = 'The AI service is temporarily unavailable.', cause?: unknown) {
+    super('unavailable', message, true, cause);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+// What browsers throw from fetch() when no response arrives. Any other
+// TypeError is a bug and must not be passed off as a connection problem.
+const FETCH_FAILURE_MESSAGES = ['failed to fetch', 'fetch failed', 'load failed', 'networkerror when attempting to fetch resource', 'network request failed'];
+
+const isFetchFailure = (error: unknown): boolean =>
+  error instanceof TypeError && FETCH_FAILURE_MESSAGES.some(message => error.message.toLowerCase().includes(message));
+
+// Wraps anything thrown into an AIError, keeping typed errors as they are
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (isFetchFailure(error) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new NetworkError(undefined, error);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new AIError('unknown', message, false, error);
+};
+
+// What to tell the learner for each kind of failure
+export const describeError = (error: AIError): { title: string; message: string } => {
+  switch (error.kind) {
+    case 'quota':
+      return { title: 'Taking a breather 😮‍💨', message: "We've hit the AI usage limit. Try again in a minute." };
+    case 'safety':
+      return { title: "Can't help with that one 🙈", message: 'That request was blocked by content filters. Try a different word.' };
+    case 'parse':
+      return { title: 'Garbled answer 🤖', message: 'The AI sent back something we could not read. Please try again.' };
+    case 'network':
+      return { title: "You're offline 📡", message: 'Check your connection and try again.' };
+    case 'unavailable':
+      return { title: 'AI is taking a nap 😴', message: 'The AI service is having trouble right now. Please try again in a few minutes.' };
+    default:
+      return { title: 'Oops! 😵', message: 'Something went wrong. Please try again.' };
+  }
+};
@@ -1,219 +1,430 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { DictionaryEntry, StoryResult } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// --- Audio Helper Functions ---
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
+import { Type } from "@google/genai";
+import {
+  ChatMessage, DictionaryEntry, Language, LearnerProfile, PronunciationAssessment, RecognizedText, SentenceAnalysis, StoryOptions, StoryResult,
+} from "../types";
+import { SCRIPT_NAMES } from "../constants";
+import { getProvider, ChatSession, InlineMedia } from "./aiProvider";
+import { withRetry } from "./retry";
+import { describeLearner } from "./learnerProfile";
+import { STORY_LENGTHS } from "./storyService";
+import {
+  parsePartialJSON,
+  partialLookupData,
+  partialSentenceAnalysis,
+  partialStoryResult,
+  validateLookupData,
+  validatePronunciation,
+  validateRecognizedText,
+  validateSentenceAnalysis,
+  validateStoryResult,
+  validateSuggestedWord,
+} from "./validation";
+
+// --- Streaming ---
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number, // e.g. 24000
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+// Reads a streamed JSON response to the end, reporting each parseable
+// prefix along the way. Returns the complete text for validation.
+const collectJSONStream = async (
+  stream: AsyncIterable<string>,
+  onPartial?: (data: unknown) => void
+): Promise<string> => {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk;
+    if (onPartial) {
+      const partial = parsePartialJSON(text);
+      if (partial !== undefined) onPartial(partial);
     }
   }
-  return buffer;
-}
-
-// Global Audio Context (Lazy loaded)
-let audioContext: AudioContext | null = null;
+  return text;
+};
 
-export const playAudio = async (text: string, voiceName: string = 'Kore') => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voiceName },
-          },
-        },
-      },
-    });
+// --- Dictionary Lookup ---
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio data returned");
+// Learners of non-Latin scripts need a romanization they can read, in the
+// scheme their textbooks use
+const pronunciationGuide = (language: Language): string =>
+  language.romanization
+    ? `${language.romanization} romanization of the ${SCRIPT_NAMES[language.script]} spelling`
+    : "IPA or simple approximation";
 
-    if (!audioContext) {
-        audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
-    }
+// Never rejects: a missing image falls back to a placeholder in the UI
+const generateEntryImage = async (term: string): Promise<string | undefined> => {
+  try {
+    const imagePrompt = `A simple, vibrant, fun, vector-art style illustration representing the concept of: "${term}". Minimalist, colorful, flat design.`;
     
-    // Ensure context is running (mobile browsers suspend it)
-    if (audioContext.state === 'suspended') {
-        await audioContext.resume();
+    const image = await getProvider().generateImage(imagePrompt);
+    if (image) {
+        return `data:${image.mimeType};base64,${image.data}`;
     }
-
-    const audioBuffer = await decodeAudioData(
-      decode(base64Audio),
-      audioContext,
-      24000,
-      1,
-    );
-
-    const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(audioContext.destination);
-    source.start();
-
-  } catch (error) {
-    console.error("Audio generation failed:", error);
-    // Fallback to basic Web Speech API if Gemini fails (e.g., quota or model issues)
-    const utterance = new SpeechSynthesisUtterance(text);
-    window.speechSynthesis.speak(utterance);
+  } catch (e) {
+      console.warn("Image generation failed, using placeholder", e);
+      // Fallback handled in UI
   }
+  return undefined;
 };
 
-// --- Dictionary Lookup ---
-
+// `onUpdate` receives the entry as the text streams in, and once more with
+// `isTextComplete` set when the text is final. The returned promise also
+// waits for the image.
 export const lookupTerm = async (
   term: string,
-  nativeLang: string,
-  targetLang: string
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  profile: LearnerProfile,
+  onUpdate?: (entry: DictionaryEntry, isTextComplete: boolean) => void
 ): Promise<DictionaryEntry> => {
-  
+  const nativeLang = nativeLanguage.name;
+  const targetLang = targetLanguage.name;
+
   // 1. Text Analysis
   const prompt = `
     Analyze the term/sentence: "${term}".
     Target Language: ${targetLang}.
     Learner's Native Language: ${nativeLang}.
-    
+    ${describeLearner(profile, targetLanguage)}
+
     Provide:
     1. A natural definition in ${nativeLang}.
     2. Two example sentences in ${targetLang} with ${nativeLang} translations.
-    3. A "Usage Guide": A fun, casual, chatty explanation (like a friend explaining slang or nuances) covering culture, tone, or common pitfalls. Keep it concise but engaging. 
-    4. Phonetic pronunciation guide (IPA or simple approximation).
+    3. A "Usage Guide": an explanation of nuances covering culture, tone, or common pitfalls, in the style described above. Keep it concise but engaging.
+    4. Phonetic pronunciation guide (${pronunciationGuide(targetLanguage)}).
+    5. The term's dictionary form (lemma): the infinitive of a conjugated verb, the singular of a plural noun, and so on.
+       Give the term itself if it is already in dictionary form.
+
+    Where they apply to this term (leave them out for whole sentences):
+    6. Part of speech, and grammatical gender if ${targetLang} marks it, both written in ${nativeLang}.
+    7. Inflection tables: the main conjugations for a verb, or the declension / plural forms for a noun or adjective.
+       Titles in ${nativeLang}; row labels are the ${targetLang} pronoun or case, e.g. "yo" → "hablo".
+    8. If the term has several distinct meanings, list them as senses, each with a ${nativeLang} definition and one example.
+    9. Synonyms, antonyms and common collocations, all in ${targetLang}.
   `;
 
-  const textResponse = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          definition: { type: Type.STRING },
-          phonetic: { type: Type.STRING },
-          examples: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                target: { type: Type.STRING },
-                native: { type: Type.STRING }
+  // 2. Image Generation (runs alongside the text)
+  const imagePromise = generateEntryImage(term);
+
+  const base = {
+    id: Date.now().toString(),
+    term: term,
+    savedAt: Date.now(),
+    nativeLang: nativeLanguage.code,
+    targetLang: targetLanguage.code,
+    tags: [],
+  };
+
+  const textData = await withRetry(async () => validateLookupData(await collectJSONStream(getProvider().streamJSON({
+    task: "lookup",
+    prompt,
+    params: { term, nativeLang, targetLang },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        lemma: { type: Type.STRING },
+        definition: { type: Type.STRING },
+        phonetic: { type: Type.STRING },
+        examples: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              target: { type: Type.STRING },
+              native: { type: Type.STRING }
+            }
+          }
+        },
+        usageGuide: { type: Type.STRING },
+        partOfSpeech: { type: Type.STRING },
+        gender: { type: Type.STRING },
+        inflections: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              rows: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    label: { type: Type.STRING },
+                    form: { type: Type.STRING }
+                  }
+                }
               }
             }
-          },
-          usageGuide: { type: Type.STRING }
-        }
+          }
+        },
+        senses: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              definition: { type: Type.STRING },
+              examples: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    target: { type: Type.STRING },
+                    native: { type: Type.STRING }
+                  }
+                }
+              }
+            }
+          }
+        },
+        synonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
+        antonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
+        collocations: { type: Type.ARRAY, items: { type: Type.STRING } }
       }
     }
-  });
+  }), onUpdate && (partial => onUpdate({ ...base, ...partialLookupData(partial) }, false)))));
 
-  const textData = JSON.parse(textResponse.text || "{}");
+  onUpdate?.({ ...base, ...textData }, true);
 
-  // 2. Image Generation (Parallel)
-  // Using gemini-2.5-flash-image for generation as per guide
-  let imageUrl = undefined;
-  try {
-    const imagePrompt = `A simple, vibrant, fun, vector-art style illustration representing the concept of: "${term}". Minimalist, colorful, flat design.`;
-    
-    const imageResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-            parts: [{ text: imagePrompt }]
+  return { ...base, ...textData, imageUrl: await imagePromise };
+};
+
+// --- Sentence Breakdown ---
+
+// Glosses a sentence word by word and explains its grammar. No image: a
+// picture of a whole sentence rarely helps.
+export const analyzeSentence = async (
+  sentence: string,
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  profile: LearnerProfile,
+  onUpdate?: (analysis: SentenceAnalysis) => void
+): Promise<SentenceAnalysis> => {
+  const nativeLang = nativeLanguage.name;
+  const targetLang = targetLanguage.name;
+
+  const prompt = `
+    Break down this ${targetLang} sentence for a learner whose native language is ${nativeLang}: "${sentence}".
+    ${describeLearner(profile, targetLanguage)}
+
+    Provide:
+    1. A natural ${nativeLang} translation.
+    2. Every word in order (leave out punctuation), each with: the text exactly as written, its dictionary form (lemma),
+       a short literal ${nativeLang} gloss, and its part of speech in ${nativeLang}.
+       Keep fixed expressions and separable verbs together as one token where a learner would look them up together.
+    3. The 2-4 grammar points a learner most needs to understand this sentence, each with a short title and
+       an explanation in ${nativeLang} that refers to the words involved.
+  `;
+
+  return withRetry(async () => validateSentenceAnalysis(await collectJSONStream(getProvider().streamJSON({
+    task: "sentence",
+    prompt,
+    params: { sentence, nativeLang, targetLang },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        translation: { type: Type.STRING },
+        tokens: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING },
+              lemma: { type: Type.STRING },
+              gloss: { type: Type.STRING },
+              partOfSpeech: { type: Type.STRING }
+            }
+          }
         },
-        config: {
-            // Note: 2.5-flash-image doesn't support aspect ratio config in generateContent broadly like Imagen, 
-            // but we use defaults. It returns inlineData.
+        grammar: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              explanation: { type: Type.STRING }
+            }
+          }
         }
-    });
+      }
+    }
+  }), onUpdate && (partial => onUpdate(partialSentenceAnalysis(partial))))));
+};
 
-    for (const part of imageResponse.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            break;
-        }
+// --- Photo Lookup ---
+
+// Reads the target-language text in a photo (menu, sign, label) so the
+// learner can pick words from it to look up
+export const recognizeText = async (photo: InlineMedia, targetLanguage: Language): Promise<RecognizedText> => {
+  const targetLang = targetLanguage.name;
+
+  const prompt = `
+    Read the ${targetLang} text in this photo, such as a menu, sign or label.
+    1. "lines": every line of ${targetLang} text, in reading order, exactly as printed. Skip prices, phone numbers and text in other languages.
+    2. "phrases": multi-word expressions from that text that are worth looking up as a whole (dish names, set phrases), at most ten.
+    Return empty lists if there is no readable ${targetLang} text.
+  `;
+
+  return withRetry(async () => validateRecognizedText(await getProvider().generateJSON({
+    task: "ocr",
+    prompt,
+    media: [photo],
+    params: { targetLang },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        lines: { type: Type.ARRAY, items: { type: Type.STRING } },
+        phrases: { type: Type.ARRAY, items: { type: Type.STRING } }
+      }
     }
-  } catch (e) {
-      console.warn("Image generation failed, using placeholder", e);
-      // Fallback handled in UI
-  }
+  })));
+};
 
-  return {
-    id: Date.now().toString(),
-    term: term,
-    savedAt: Date.now(),
-    phonetic: textData.phonetic,
-    definition: textData.definition,
-    examples: textData.examples || [],
-    usageGuide: textData.usageGuide,
-    imageUrl: imageUrl
-  };
+// --- Word Suggestions ---
+
+// One word worth learning today, for learners with nothing in their notebook
+// to draw a word of the day from. `day` only varies the pick between days.
+export const suggestWord = async (
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  profile: LearnerProfile,
+  day: string
+): Promise<string> => {
+  const nativeLang = nativeLanguage.name;
+  const targetLang = targetLanguage.name;
+
+  const prompt = `
+    Suggest one ${targetLang} word or short expression for a ${nativeLang} speaker to learn today (${day}).
+    ${describeLearner(profile, targetLanguage)}
+    Pick something useful and memorable, not the most basic greeting. Give it in its dictionary form, in ${targetLang} script.
+  `;
+
+  return withRetry(async () => validateSuggestedWord(await getProvider().generateJSON({
+    task: "suggestion",
+    prompt,
+    params: { nativeLang, targetLang, day },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        term: { type: Type.STRING }
+      }
+    }
+  })));
 };
 
 // --- Chat ---
 
-export const createChatSession = (initialSystemInstruction: string) => {
-    return ai.chats.create({
-        model: "gemini-2.5-flash",
-        config: {
-            systemInstruction: initialSystemInstruction
-        }
-    });
+export const createChatSession = (initialSystemInstruction: string, history: ChatMessage[] = []): ChatSession => {
+    return getProvider().createChat(initialSystemInstruction, history);
 }
 
 // --- Story Generation ---
 
+// Writes a story at the learner's level around their notebook words, with a
+// translation per sentence, the words each sentence uses (as written) and a
+// few comprehension questions.
 export const generateStoryFromNotes = async (
   notes: DictionaryEntry[],
-  nativeLang: string,
-  targetLang: string
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  options: StoryOptions,
+  profile: LearnerProfile,
+  onUpdate?: (story: StoryResult) => void
 ): Promise<StoryResult> => {
+  const nativeLang = nativeLanguage.name;
+  const targetLang = targetLanguage.name;
   const words = notes.map(n => n.term).join(", ");
-  
+  const sentenceCount = STORY_LENGTHS[options.length].sentences;
+
   const prompt = `
-    Create a short, fun, and cohesive story in ${targetLang} using these words: ${words}.
-    The story should be simple (A2-B1 level).
-    Also provide a title in ${targetLang}.
-    Translate the whole story content into ${nativeLang} only for reference if needed (but primarily return the target text).
-    Actually, return just the ${targetLang} text formatted nicely.
+    Write a ${options.genre.toLowerCase()} story in ${targetLang} for a learner at CEFR level ${options.level}.
+    Use these words from the learner's notebook: ${words}. Inflect them naturally where the grammar needs it.
+    Keep vocabulary and grammar at ${options.level}, apart from the notebook words.
+    ${describeLearner(profile, targetLanguage, options.level)}
+    Length: about ${sentenceCount} sentences.
+
+    Provide:
+    1. A title in ${targetLang}.
+    2. The story as a list of sentences. For each: the ${targetLang} sentence, a natural ${nativeLang} translation,
+       and the notebook words it contains, each with "form" (exactly as written in the sentence) and "term" (as given above).
+    3. Three multiple-choice comprehension questions written in ${nativeLang}, with 3-4 choices each
+       and the zero-based index of the correct choice.
   `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          content: { type: Type.STRING, description: "The full story text" }
+  return withRetry(async () => validateStoryResult(await collectJSONStream(getProvider().streamJSON({
+    task: "story",
+    prompt,
+    params: { words, nativeLang, targetLang, level: options.level, genre: options.genre, sentences: String(sentenceCount) },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        sentences: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              target: { type: Type.STRING },
+              native: { type: Type.STRING },
+              words: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    form: { type: Type.STRING },
+                    term: { type: Type.STRING }
+                  }
+                }
+              }
+            }
+          }
+        },
+        questions: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              question: { type: Type.STRING },
+              choices: { type: Type.ARRAY, items: { type: Type.STRING } },
+              answer: { type: Type.INTEGER }
+            }
+          }
         }
       }
     }
-  });
+  }), onUpdate && (partial => onUpdate(partialStoryResult(partial))))));
+};
+
+// --- Pronunciation ---
+
+// Scores a recording of the learner saying `entry.term`. Feedback is written
+// in the learner's language; tips name the sounds to work on.
+export const assessPronunciation = async (
+  entry: DictionaryEntry,
+  recording: InlineMedia,
+  nativeLanguage: Language,
+  targetLanguage: Language
+): Promise<PronunciationAssessment> => {
+  const nativeLang = nativeLanguage.name;
+  const targetLang = targetLanguage.name;
 
-  return JSON.parse(response.text || '{"title": "Error", "content": "Could not generate story."}');
+  const prompt = `
+    The attached audio is a ${nativeLang} speaker learning ${targetLang}, trying to say: "${entry.term}"${entry.phonetic ? ` (${entry.phonetic})` : ""}.
+    1. Transcribe exactly what they said, in ${targetLang} script. Leave it empty if nothing intelligible was said.
+    2. Score their pronunciation from 0 to 100 against a native speaker. Be encouraging but honest.
+    3. Give one or two sentences of feedback in ${nativeLang}.
+    4. List up to three specific tips in ${nativeLang}, each naming the sound or syllable to fix and how to place the mouth or tongue.
+  `;
+
+  return withRetry(async () => validatePronunciation(await getProvider().generateJSON({
+    task: "pronunciation",
+    prompt,
+    media: [recording],
+    params: { term: entry.term, phonetic: entry.phonetic || "", nativeLang, targetLang, audioBytes: String(recording.data.length) },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        transcript: { type: Type.STRING },
+        score: { type: Type.NUMBER },
+        feedback: { type: Type.STRING },
+        tips: { type: Type.ARRAY, items: { type: Type.STRING } }
+      }
+    }
+  })));
 };
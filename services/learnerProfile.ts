@@ -0,0 +1,42 @@
+import { CEFRLevel, ExplanationStyle, Language, LearnerProfile } from "../types";
+
+export const DEFAULT_LEVEL: CEFRLevel = "A2";
+
+export const DEFAULT_LEARNER_PROFILE: LearnerProfile = { levels: {}, interests: [], style: "casual" };
+
+export const levelFor = (profile: LearnerProfile, targetLangCode: string): CEFRLevel =>
+  profile.levels[targetLangCode] || DEFAULT_LEVEL;
+
+// Settings saved before a field existed, or by an older version, fall back
+// to the defaults field by field
+export const toLearnerProfile = (stored: Partial<LearnerProfile> | undefined): LearnerProfile => ({
+  levels: stored?.levels || DEFAULT_LEARNER_PROFILE.levels,
+  interests: stored?.interests || DEFAULT_LEARNER_PROFILE.interests,
+  style: stored?.style || DEFAULT_LEARNER_PROFILE.style,
+});
+
+// --- Prompt Context ---
+
+const STYLE_INSTRUCTIONS: Record<ExplanationStyle, string> = {
+  casual: "like a friend would: casual, chatty and light on grammar jargon",
+  balanced: "like a patient teacher: clear and warm, naming grammar terms only where they help",
+  formal: "like a grammar reference: precise, using the proper grammatical terminology",
+};
+
+// Who the model is talking to, for any prompt that explains or writes
+// something for the learner. `level` overrides the profile's, e.g. for a
+// story the learner asked to be harder.
+export const describeLearner = (
+  profile: LearnerProfile,
+  targetLanguage: Language,
+  level: CEFRLevel = levelFor(profile, targetLanguage.code)
+): string => {
+  const lines = [
+    `The learner's ${targetLanguage.name} is at CEFR level ${level}. Keep explanations and examples at that level.`,
+    `Explain things ${STYLE_INSTRUCTIONS[profile.style]}.`,
+  ];
+  if (profile.interests.length > 0) {
+    lines.push(`Their interests: ${profile.interests.join(", ")}. Draw examples from these where it fits naturally.`);
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,124 @@
+import { DictionaryEntry } from "../types";
+import {
+  CachedLookupRecord,
+  dataUrlToBlob,
+  deleteCachedLookups,
+  loadCachedLookups,
+  putCachedLookup,
+} from "./storage";
+
+// --- Lookup Cache ---
+// Remembers lookupTerm results per (term, language pair) so repeat searches
+// skip both the text and the image generation. Kept in memory for instant
+// hits and written through to IndexedDB so it survives reloads.
+
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 200;
+
+interface MemoryRecord {
+  record: CachedLookupRecord;
+  imageUrl?: string; // Object URL for record.image, created on first hit
+}
+
+// Map iteration order doubles as LRU order: least recently used first
+let cache: Map<string, MemoryRecord> | null = null;
+let loadPromise: Promise<Map<string, MemoryRecord>> | null = null;
+
+export const normalizeTerm = (term: string): string =>
+  term.normalize("NFC").trim().replace(/\s+/g, " ").toLowerCase();
+
+export const makeLookupKey = (term: string, nativeLangCode: string, targetLangCode: string): string =>
+  `${nativeLangCode}|${targetLangCode}|${normalizeTerm(term)}`;
+
+const releaseRecord = (memory: MemoryRecord) => {
+  if (memory.imageUrl) URL.revokeObjectURL(memory.imageUrl);
+};
+
+const loadCache = (): Promise<Map<string, MemoryRecord>> => {
+  if (cache) return Promise.resolve(cache);
+  if (!loadPromise) {
+    loadPromise = loadCachedLookups()
+      .catch(error => {
+        console.warn("Lookup cache unavailable, starting empty", error);
+        return [] as CachedLookupRecord[];
+      })
+      .then(records => {
+        cache = new Map(
+          records
+            .sort((a, b) => a.lastAccessed - b.lastAccessed)
+            .map(record => [record.key, { record }])
+        );
+        return cache;
+      });
+  }
+  return loadPromise;
+};
+
+const evict = (map: Map<string, MemoryRecord>, keys: string[]) => {
+  keys.forEach(key => {
+    const memory = map.get(key);
+    if (memory) releaseRecord(memory);
+    map.delete(key);
+  });
+  deleteCachedLookups(keys).catch(error => console.warn("Failed to evict cached lookups", error));
+};
+
+export const getCachedLookup = async (
+  term: string,
+  nativeLangCode: string,
+  targetLangCode: string
+): Promise<DictionaryEntry | null> => {
+  const map = await loadCache();
+  const key = makeLookupKey(term, nativeLangCode, targetLangCode);
+  const memory = map.get(key);
+  if (!memory) return null;
+
+  const now = Date.now();
+  if (now - memory.record.storedAt > TTL_MS) {
+    evict(map, [key]);
+    return null;
+  }
+
+  // Move to the most recently used end
+  map.delete(key);
+  map.set(key, memory);
+  memory.record = { ...memory.record, lastAccessed: now };
+  putCachedLookup(memory.record).catch(error => console.warn("Failed to touch cached lookup", error));
+
+  if (memory.record.image && !memory.imageUrl) {
+    memory.imageUrl = URL.createObjectURL(memory.record.image);
+  }
+  return { ...memory.record.entry, imageUrl: memory.imageUrl };
+};
+
+export const cacheLookup = async (
+  term: string,
+  nativeLangCode: string,
+  targetLangCode: string,
+  entry: DictionaryEntry
+): Promise<void> => {
+  const map = await loadCache();
+  const key = makeLookupKey(term, nativeLangCode, targetLangCode);
+  const { imageUrl, ...rest } = entry;
+  const now = Date.now();
+
+  const existing = map.get(key);
+  if (existing) {
+    releaseRecord(existing);
+    map.delete(key);
+  }
+
+  const record: CachedLookupRecord = {
+    key,
+    entry: rest,
+    image: imageUrl?.startsWith("data:") ? dataUrlToBlob(imageUrl) : undefined,
+    storedAt: now,
+    lastAccessed: now,
+  };
+  map.set(key, { record });
+  await putCachedLookup(record);
+
+  if (map.size > MAX_ENTRIES) {
+    evict(map, Array.from(map.keys()).slice(0, map.size - MAX_ENTRIES));
+  }
+};
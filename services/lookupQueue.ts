@@ -0,0 +1,49 @@
+import { Language, LearnerProfile } from "../types";
+import { findLanguage } from "../constants";
+import { lookupTerm } from "./geminiService";
+import { cacheLookup, makeLookupKey } from "./lookupCache";
+import { toAIError } from "./errors";
+import { PendingLookup, putPendingLookup } from "./storage";
+
+// --- Offline Lookup Queue ---
+// Searches made without a connection are remembered and looked up once it
+// returns. Results go into the lookup cache, so opening a finished one is
+// instant and works offline again. Entries stay listed until opened or
+// dismissed.
+
+export const queueLookup = async (term: string, nativeLanguage: Language, targetLanguage: Language): Promise<PendingLookup> => {
+  const pending: PendingLookup = {
+    key: makeLookupKey(term, nativeLanguage.code, targetLanguage.code),
+    term: term.trim(),
+    nativeLang: nativeLanguage.code,
+    targetLang: targetLanguage.code,
+    queuedAt: Date.now(),
+    status: "queued",
+  };
+  await putPendingLookup(pending);
+  return pending;
+};
+
+// Looks up one queued term and records the outcome. Network failures are
+// rethrown so the caller can stop and wait for the connection; anything else
+// marks the lookup as failed rather than retrying it forever.
+export const runPendingLookup = async (pending: PendingLookup, profile: LearnerProfile): Promise<PendingLookup> => {
+  const nativeLanguage = findLanguage(pending.nativeLang);
+  const targetLanguage = findLanguage(pending.targetLang);
+  let status: PendingLookup["status"] = "failed";
+
+  if (nativeLanguage && targetLanguage) {
+    try {
+      const entry = await lookupTerm(pending.term, nativeLanguage, targetLanguage, profile);
+      await cacheLookup(pending.term, nativeLanguage.code, targetLanguage.code, entry);
+      status = "ready";
+    } catch (error) {
+      if (toAIError(error).kind === "network") throw error;
+      console.error("Queued lookup failed:", error);
+    }
+  }
+
+  const settled = { ...pending, status };
+  await putPendingLookup(settled);
+  return settled;
+};
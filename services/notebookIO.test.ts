@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { DictionaryEntry } from '../types';
+import { mockEntry } from './providers/mockEntries';
+import { mockProvider } from './providers/mockProvider';
+import { exportAnkiTsv, exportCsv, exportJsonBundle, mergeEntries, parseNotebookFile } from './notebookIO';
+
+const PAIR = { nativeLang: 'en', targetLang: 'es' };
+const DAY = 24 * 60 * 60 * 1000;
+
+const withImage = async (entry: DictionaryEntry): Promise<DictionaryEntry> => {
+  const image = await mockProvider.generateImage(entry.term);
+  return { ...entry, imageUrl: `data:${image!.mimeType};base64,${image!.data}` };
+};
+
+const notebook = async (): Promise<DictionaryEntry[]> => [
+  await withImage(mockEntry('gato', { savedAt: Date.UTC(2026, 0, 5), tags: ['animals', 'home'], folder: 'Nouns' })),
+  mockEntry('perro', {
+    savedAt: Date.UTC(2026, 0, 6),
+    definition: 'A dog, "man\'s best friend",\nloyal',
+    review: { ease: 2.5, interval: 3, repetitions: 2, lapses: 0, due: Date.UTC(2026, 0, 9) },
+  }),
+];
+
+const importFile = (contents: string, name: string) => parseNotebookFile(new File([contents], name), PAIR);
+
+describe('CSV', () => {
+  it('round-trips the fields it carries', async () => {
+    const entries = await notebook();
+    const { entries: imported } = await importFile(exportCsv(entries), 'notebook.csv');
+    expect(imported).toHaveLength(2);
+    imported.forEach((entry, i) => {
+      const { term, phonetic, definition, usageGuide, examples, tags, folder, savedAt } = entries[i];
+      expect(entry).toMatchObject({ term, phonetic, definition, usageGuide, examples, tags, folder, savedAt, ...PAIR });
+    });
+  });
+
+  it('needs a term column', async () => {
+    await expect(importFile('word,meaning\ngato,cat', 'notebook.csv')).rejects.toThrow("'term' column");
+  });
+});
+
+describe('JSON bundle', () => {
+  it('round-trips whole entries, images and study progress included', async () => {
+    const entries = await notebook();
+    const { entries: imported } = await importFile(await exportJsonBundle(entries, PAIR), 'notebook.json');
+    expect(imported).toEqual(entries);
+  });
+
+  it('reports files that are not notebooks readably', async () => {
+    await expect(importFile('{ not json', 'notebook.json')).rejects.toThrow("This file isn't a LingoPop notebook.");
+    await expect(importFile('{"format": "something-else", "entries": []}', 'notebook.json'))
+      .rejects.toThrow("This file isn't a LingoPop notebook.");
+    await expect(importFile('null', 'notebook.json')).rejects.toThrow("This file isn't a LingoPop notebook.");
+  });
+
+  it('refuses bundles from a newer version', async () => {
+    const bundle = JSON.parse(await exportJsonBundle([], PAIR));
+    await expect(importFile(JSON.stringify({ ...bundle, version: bundle.version + 1 }), 'notebook.json'))
+      .rejects.toThrow('newer version');
+  });
+});
+
+describe('Anki TSV', () => {
+  it('writes one escaped row per entry under the header directives', async () => {
+    const entries = await notebook();
+    const lines = (await exportAnkiTsv(entries, PAIR)).split('\n');
+    expect(lines.slice(0, 4)).toEqual([
+      '#separator:tab',
+      '#html:true',
+      '#deck:LingoPop en-es',
+      '#columns:Term\tPhonetic\tDefinition\tExamples\tImage',
+    ]);
+    expect(lines).toHaveLength(6);
+
+    const [gato, perro] = lines.slice(4).map(line => line.split('\t'));
+    expect(gato).toHaveLength(5);
+    expect(gato[4]).toBe(`<img src="${entries[0].imageUrl}">`);
+    expect(perro[2]).toBe('A dog, &quot;man\'s best friend&quot;,<br>loyal');
+    expect(perro[4]).toBe('');
+  });
+});
+
+describe('mergeEntries', () => {
+  const existing = [
+    mockEntry('gato', { id: 'a', savedAt: 10 * DAY, tags: ['animals'], review: { ease: 2.5, interval: 3, repetitions: 2, lapses: 0, due: 13 * DAY } }),
+    mockEntry('perro', { id: 'b', savedAt: 10 * DAY }),
+  ];
+  const incoming = [
+    mockEntry('Gato', { id: 'x', savedAt: 20 * DAY, definition: 'A cat (imported)', tags: ['pets'] }),
+    mockEntry('perro', { id: 'y', savedAt: 5 * DAY, definition: 'A dog (imported)' }),
+    mockEntry('pájaro', { id: 'a', savedAt: 1 * DAY }),
+  ];
+
+  it('keeps existing entries on conflict', () => {
+    const merged = mergeEntries(existing, incoming, 'keep-existing');
+    expect(merged).toMatchObject({ added: 1, updated: 0, skipped: 2 });
+    expect(merged.notebook.find(e => e.id === 'a')?.definition).toBe(existing[0].definition);
+  });
+
+  it('replaces conflicting entries in place, keeping tags and progress', () => {
+    const merged = mergeEntries(existing, incoming, 'replace');
+    expect(merged).toMatchObject({ added: 1, updated: 2, skipped: 0 });
+    const gato = merged.notebook.find(e => e.id === 'a')!;
+    expect(gato.definition).toBe('A cat (imported)');
+    expect(gato.tags).toEqual(['animals', 'pets']);
+    expect(gato.review).toEqual(existing[0].review);
+  });
+
+  it('keeps whichever copy was saved later', () => {
+    const merged = mergeEntries(existing, incoming, 'keep-newer');
+    expect(merged).toMatchObject({ added: 1, updated: 1, skipped: 1 });
+    expect(merged.notebook.find(e => e.id === 'a')?.definition).toBe('A cat (imported)');
+    expect(merged.notebook.find(e => e.id === 'b')?.definition).toBe(existing[1].definition);
+  });
+
+  it('gives a new word a fresh id when its id is already taken', () => {
+    const merged = mergeEntries(existing, incoming, 'keep-existing');
+    const pajaro = merged.notebook.find(e => e.term === 'pájaro')!;
+    expect(pajaro.id).not.toBe('a');
+    expect(merged.changed).toEqual([pajaro]);
+  });
+
+  it('merges only the newest copy of a word listed twice in one import', () => {
+    const twice = [mockEntry('loro', { id: 'p', savedAt: 2 * DAY }), mockEntry('Loro', { id: 'q', savedAt: 3 * DAY })];
+    const merged = mergeEntries(existing, twice, 'replace');
+    expect(merged).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+    expect(merged.notebook.filter(e => e.term.toLowerCase() === 'loro').map(e => e.id)).toEqual(['q']);
+  });
+});
@@ -0,0 +1,327 @@
+import { DictionaryEntry, Example } from "../types";
+import { makeLookupKey } from "./lookupCache";
+
+// --- Notebook Export / Import ---
+// Anki's .apkg is a zipped SQLite database, which we can't write without
+// pulling in SQLite; Anki's plain-text import (TSV with header directives)
+// covers the same fields, images included as inline HTML.
+
+export type ExportFormat = 'csv' | 'json' | 'anki';
+export type ConflictStrategy = 'keep-existing' | 'replace' | 'keep-newer';
+
+const BUNDLE_FORMAT = 'lingopop-notebook';
+const BUNDLE_VERSION = 2; // v2: entries carry their own language pair
+
+export interface LanguagePair {
+  nativeLang: string; // Language code
+  targetLang: string;
+}
+
+interface BundleEntry extends Omit<DictionaryEntry, 'imageUrl'> {
+  image?: string; // Data URL
+}
+
+export interface NotebookBundle extends LanguagePair {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  entries: BundleEntry[];
+}
+
+export interface ImportResult {
+  entries: DictionaryEntry[];
+}
+
+export interface MergeResult {
+  notebook: DictionaryEntry[];
+  changed: DictionaryEntry[]; // Entries to persist
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// --- Helpers ---
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Entry images may be object URLs from storage; exports need the bytes
+const imageToDataUrl = async (imageUrl?: string): Promise<string | undefined> => {
+  if (!imageUrl) return undefined;
+  if (imageUrl.startsWith('data:')) return imageUrl;
+  try {
+    return await blobToDataUrl(await (await fetch(imageUrl)).blob());
+  } catch (error) {
+    console.warn("Could not read image for export", error);
+    return undefined;
+  }
+};
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Tabs and newlines would break TSV rows; Anki fields are HTML anyway
+const escapeTsv = (value: string) =>
+  value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// RFC 4180 parser: quoted fields may contain commas, quotes and newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+let idCounter = 0;
+const newId = () => `${Date.now()}-${idCounter++}`;
+
+// --- Export ---
+
+const CSV_COLUMNS = ['term', 'phonetic', 'definition', 'usage_guide', 'example_1_target', 'example_1_native', 'example_2_target', 'example_2_native', 'tags', 'folder', 'saved_at'];
+
+export const exportCsv = (entries: DictionaryEntry[]): string => {
+  const rows = entries.map(entry => [
+    entry.term,
+    entry.phonetic || '',
+    entry.definition,
+    entry.usageGuide,
+    entry.examples[0]?.target || '',
+    entry.examples[0]?.native || '',
+    entry.examples[1]?.target || '',
+    entry.examples[1]?.native || '',
+    entry.tags.join('; '),
+    entry.folder || '',
+    new Date(entry.savedAt).toISOString(),
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+export const exportJsonBundle = async (entries: DictionaryEntry[], pair: LanguagePair): Promise<string> => {
+  const bundleEntries = await Promise.all(entries.map(async ({ imageUrl, sourceImage, ...entry }) => ({
+    ...entry,
+    image: await imageToDataUrl(imageUrl),
+    sourceImage: await imageToDataUrl(sourceImage),
+  })));
+  const bundle: NotebookBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    ...pair,
+    entries: bundleEntries,
+  };
+  return JSON.stringify(bundle);
+};
+
+// Anki text import with header directives (Anki 2.1.55+)
+export const exportAnkiTsv = async (entries: DictionaryEntry[], pair: LanguagePair): Promise<string> => {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#deck:LingoPop ${pair.nativeLang}-${pair.targetLang}`,
+    '#columns:Term\tPhonetic\tDefinition\tExamples\tImage',
+  ];
+  const rows = await Promise.all(entries.map(async entry => {
+    const examples = entry.examples
+      .map(ex => `${escapeHtml(ex.target)}<br><i>${escapeHtml(ex.native)}</i>`)
+      .join('<br><br>');
+    const image = await imageToDataUrl(entry.imageUrl);
+    return [
+      escapeHtml(entry.term),
+      escapeHtml(entry.phonetic || ''),
+      escapeHtml(entry.definition),
+      examples,
+      image ? `<img src="${image}">` : '',
+    ].map(escapeTsv).join('\t');
+  }));
+  return [...header, ...rows].join('\n');
+};
+
+export const downloadFile = (contents: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportNotebook = async (entries: DictionaryEntry[], format: ExportFormat, pair: LanguagePair) => {
+  const basename = `lingopop-${pair.nativeLang}-${pair.targetLang}`;
+  switch (format) {
+    case 'csv':
+      return downloadFile(exportCsv(entries), `${basename}.csv`, 'text/csv');
+    case 'json':
+      return downloadFile(await exportJsonBundle(entries, pair), `${basename}.json`, 'application/json');
+    case 'anki':
+      return downloadFile(await exportAnkiTsv(entries, pair), `${basename}.anki.txt`, 'text/tab-separated-values');
+  }
+};
+
+// --- Import ---
+
+const fromBundleEntry = ({ image, ...entry }: BundleEntry, pair: LanguagePair): DictionaryEntry => ({
+  ...entry,
+  id: entry.id || newId(),
+  nativeLang: entry.nativeLang || pair.nativeLang,
+  targetLang: entry.targetLang || pair.targetLang,
+  tags: Array.isArray(entry.tags) ? entry.tags : [],
+  examples: Array.isArray(entry.examples) ? entry.examples : [],
+  definition: entry.definition || '',
+  usageGuide: entry.usageGuide || '',
+  savedAt: entry.savedAt || Date.now(),
+  imageUrl: image,
+});
+
+const parseJsonBundle = (text: string): ImportResult => {
+  let bundle: NotebookBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't a LingoPop notebook.");
+  }
+  if (!bundle || bundle.format !== BUNDLE_FORMAT || !Array.isArray(bundle.entries)) {
+    throw new Error("This file isn't a LingoPop notebook.");
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error("This notebook was exported by a newer version of LingoPop.");
+  }
+  // v1 bundles only record the pair once, at the top
+  const pair = { nativeLang: bundle.nativeLang, targetLang: bundle.targetLang };
+  return {
+    entries: bundle.entries.filter(e => e && typeof e.term === 'string').map(e => fromBundleEntry(e, pair)),
+  };
+};
+
+// CSV rows carry no language pair; they join the notebook being viewed
+const parseCsvNotebook = (text: string, pair: LanguagePair): ImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  const column = (name: string) => header?.indexOf(name) ?? -1;
+  if (column('term') === -1) {
+    throw new Error("The CSV needs at least a 'term' column.");
+  }
+  const cell = (row: string[], name: string) => {
+    const index = column(name);
+    return index >= 0 ? (row[index] || '').trim() : '';
+  };
+
+  const entries = rows
+    .filter(row => cell(row, 'term'))
+    .map(row => {
+      const examples: Example[] = [1, 2]
+        .map(n => ({ target: cell(row, `example_${n}_target`), native: cell(row, `example_${n}_native`) }))
+        .filter(ex => ex.target);
+      const savedAt = Date.parse(cell(row, 'saved_at'));
+      return {
+        id: newId(),
+        term: cell(row, 'term'),
+        phonetic: cell(row, 'phonetic') || undefined,
+        definition: cell(row, 'definition'),
+        usageGuide: cell(row, 'usage_guide'),
+        examples,
+        savedAt: Number.isNaN(savedAt) ? Date.now() : savedAt,
+        ...pair,
+        tags: cell(row, 'tags').split(';').map(tag => tag.trim()).filter(Boolean),
+        folder: cell(row, 'folder') || undefined,
+      };
+    });
+  return { entries };
+};
+
+export const parseNotebookFile = async (file: File, currentPair: LanguagePair): Promise<ImportResult> => {
+  const text = await file.text();
+  return file.name.toLowerCase().endsWith('.csv') ? parseCsvNotebook(text, currentPair) : parseJsonBundle(text);
+};
+
+const entryKey = (entry: DictionaryEntry) => makeLookupKey(entry.term, entry.nativeLang, entry.targetLang);
+
+// Merges imported entries into the notebook, matching on normalized term and language pair.
+// Conflicting entries keep the existing id so stored images are replaced in place.
+export const mergeEntries = (
+  existing: DictionaryEntry[],
+  incoming: DictionaryEntry[],
+  strategy: ConflictStrategy
+): MergeResult => {
+  const byTerm = new Map(existing.map(entry => [entryKey(entry), entry]));
+  const changed: DictionaryEntry[] = [];
+  let added = 0, updated = 0, skipped = 0;
+
+  // A file can hold the same word more than once; only its newest copy is merged
+  const newestIncoming = new Map<string, DictionaryEntry>();
+  incoming.forEach(entry => {
+    const key = entryKey(entry);
+    const seen = newestIncoming.get(key);
+    if (seen) skipped++;
+    if (!seen || entry.savedAt > seen.savedAt) newestIncoming.set(key, entry);
+  });
+
+  newestIncoming.forEach(entry => {
+    const key = entryKey(entry);
+    const current = byTerm.get(key);
+
+    if (!current) {
+      const fresh = existing.some(e => e.id === entry.id) ? { ...entry, id: newId() } : entry;
+      byTerm.set(key, fresh);
+      changed.push(fresh);
+      added++;
+      return;
+    }
+
+    const incomingWins = strategy === 'replace'
+      || (strategy === 'keep-newer' && entry.savedAt > current.savedAt);
+    if (!incomingWins) {
+      skipped++;
+      return;
+    }
+
+    const merged: DictionaryEntry = {
+      ...entry,
+      id: current.id,
+      imageUrl: entry.imageUrl || current.imageUrl,
+      sourceImage: entry.sourceImage || current.sourceImage,
+      review: entry.review || current.review,
+      pronunciation: entry.pronunciation || current.pronunciation,
+      quiz: entry.quiz || current.quiz,
+      notes: entry.notes || current.notes,
+      tags: Array.from(new Set([...current.tags, ...entry.tags])),
+      folder: entry.folder || current.folder,
+    };
+    byTerm.set(key, merged);
+    changed.push(merged);
+    updated++;
+  });
+
+  const notebook = Array.from(byTerm.values()).sort((a, b) => b.savedAt - a.savedAt);
+  return { notebook, changed, added, updated, skipped };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DictionaryEntry } from '../types';
+import { mockEntry } from './providers/mockEntries';
+import { createSearchIndex, foldText, sortEntries, tokenize } from './notebookSearch';
+
+const indexOf = (...entries: DictionaryEntry[]) => {
+  const index = createSearchIndex();
+  index.sync(entries);
+  return index;
+};
+
+const ids = (results: Map<string, number>) => Array.from(results.keys()).sort();
+
+describe('foldText', () => {
+  it('ignores case and accents in alphabetic scripts', () => {
+    expect(foldText('Café CRÈME')).toBe('cafe creme');
+    expect(foldText('Ёлка')).toBe('елка');
+  });
+
+  it('leaves kana and Hangul intact', () => {
+    expect(foldText('がっこう')).toBe('がっこう');
+    expect(foldText('학교')).toBe('학교');
+  });
+});
+
+describe('tokenize', () => {
+  it('splits CJK runs into character bigrams', () => {
+    expect(tokenize('图书馆').map(t => t.value)).toEqual(['图书', '书馆']);
+    expect(tokenize('猫').map(t => t.value)).toEqual(['猫']);
+  });
+
+  it('indexes words around CJK text separately', () => {
+    expect(tokenize('Tokyo 東京 station')).toEqual([
+      { value: '東京', cjk: true },
+      { value: 'tokyo', cjk: false },
+      { value: 'station', cjk: false },
+    ]);
+  });
+});
+
+describe('search', () => {
+  const library = mockEntry('图书馆', { id: 'library', targetLang: 'zh' });
+  const book = mockEntry('图书', { id: 'book', targetLang: 'zh' });
+  const bookshop = mockEntry('书店', { id: 'bookshop', targetLang: 'zh' });
+
+  it('matches a CJK query by its bigrams', () => {
+    const index = indexOf(library, book, bookshop);
+    expect(ids(index.search('图书'))).toEqual(['book', 'library']);
+    expect(ids(index.search('图书馆'))).toEqual(['library']);
+  });
+
+  it('matches a single CJK character anywhere in a word', () => {
+    expect(ids(indexOf(library, book, bookshop).search('书'))).toEqual(['book', 'bookshop', 'library']);
+  });
+
+  it('matches alphabetic words by prefix, ignoring accents', () => {
+    const index = indexOf(mockEntry('café', { id: 'cafe' }), mockEntry('cama', { id: 'bed' }));
+    expect(ids(index.search('cafe'))).toEqual(['cafe']);
+    expect(ids(index.search('CA'))).toEqual(['bed', 'cafe']);
+  });
+
+  it('requires every query word to match', () => {
+    const index = indexOf(mockEntry('gato negro', { id: 'black' }), mockEntry('gato blanco', { id: 'white' }));
+    expect(ids(index.search('gato neg'))).toEqual(['black']);
+  });
+
+  it('ranks a match in the term above one in the definition', () => {
+    const index = indexOf(mockEntry('gato', { id: 'term' }), mockEntry('perro', { id: 'definition', definition: 'Not a gato' }));
+    const results = index.search('gato');
+    expect(results.get('term')).toBeGreaterThan(results.get('definition')!);
+  });
+
+  it('follows the notebook as entries change or go', () => {
+    const gato = mockEntry('gato', { id: 'a' });
+    const index = indexOf(gato, mockEntry('perro', { id: 'b' }));
+    index.sync([{ ...gato, definition: 'Un felino' }]);
+    expect(ids(index.search('felino'))).toEqual(['a']);
+    expect(ids(index.search('perro'))).toEqual([]);
+  });
+});
+
+describe('sortEntries', () => {
+  it('sorts alphabetically in the target language, ignoring case and accents', () => {
+    const entries = [mockEntry('Zorro'), mockEntry('árbol'), mockEntry('casa')];
+    expect(sortEntries(entries, 'alphabetical', 'es').map(e => e.term)).toEqual(['árbol', 'casa', 'Zorro']);
+  });
+});
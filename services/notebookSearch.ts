@@ -0,0 +1,171 @@
+import { DictionaryEntry } from "../types";
+
+// --- Notebook Search ---
+// An in-memory inverted index over saved entries. Space-separated scripts
+// are indexed by word (matched by prefix, ignoring case and accents); CJK
+// text has no spaces, so it is indexed by character bigrams instead.
+
+export type NotebookSort = 'relevance' | 'recent' | 'alphabetical' | 'due' | 'difficulty';
+
+const FIELD_WEIGHTS = {
+  term: 4,
+  definition: 2,
+  usageGuide: 1,
+  examples: 1,
+};
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+// Remaining marks are part of the word, like Devanagari vowel signs
+const WORD = /[\p{L}\p{M}\p{N}]+/gu;
+
+// Strips accents from alphabetic scripts, and Arabic's optional vowel points.
+// Decomposing kana or Hangul and dropping the marks would change the
+// character, so those recompose.
+export const foldText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{Script=Arabic}])\p{M}+/gu, '$1')
+    .normalize('NFC');
+
+interface Token {
+  value: string;
+  cjk: boolean;
+}
+
+export const tokenize = (text: string): Token[] => {
+  const folded = foldText(text);
+  const tokens: Token[] = [];
+
+  for (const run of folded.match(CJK_RUN) || []) {
+    const chars = Array.from(run);
+    if (chars.length === 1) tokens.push({ value: run, cjk: true });
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push({ value: chars[i] + chars[i + 1], cjk: true });
+    }
+  }
+  for (const word of folded.replace(CJK_RUN, ' ').match(WORD) || []) {
+    tokens.push({ value: word, cjk: false });
+  }
+  return tokens;
+};
+
+const entryFields = (entry: DictionaryEntry): [keyof typeof FIELD_WEIGHTS, string][] => [
+  ['term', entry.term],
+  ['definition', entry.definition],
+  ['usageGuide', entry.usageGuide],
+  ['examples', entry.examples.map(ex => `${ex.target} ${ex.native}`).join(' ')],
+];
+
+export interface SearchIndex {
+  // Brings the index in line with `entries`, re-indexing only what changed
+  sync(entries: DictionaryEntry[]): void;
+  add(entry: DictionaryEntry): void;
+  remove(id: string): void;
+  // Matching entry ids with relevance scores; every query token must match
+  search(query: string): Map<string, number>;
+}
+
+export const createSearchIndex = (): SearchIndex => {
+  const postings = new Map<string, Map<string, number>>(); // token -> entry id -> weight
+  const tokensById = new Map<string, Set<string>>();
+  const indexed = new Map<string, DictionaryEntry>(); // Entry object last indexed per id
+
+  const remove = (id: string) => {
+    tokensById.get(id)?.forEach(token => {
+      const posting = postings.get(token);
+      posting?.delete(id);
+      if (posting?.size === 0) postings.delete(token);
+    });
+    tokensById.delete(id);
+    indexed.delete(id);
+  };
+
+  const add = (entry: DictionaryEntry) => {
+    remove(entry.id);
+    const tokens = new Set<string>();
+    entryFields(entry).forEach(([field, text]) => {
+      tokenize(text).forEach(({ value }) => {
+        const posting = postings.get(value) || new Map<string, number>();
+        posting.set(entry.id, (posting.get(entry.id) || 0) + FIELD_WEIGHTS[field]);
+        postings.set(value, posting);
+        tokens.add(value);
+      });
+    });
+    tokensById.set(entry.id, tokens);
+    indexed.set(entry.id, entry);
+  };
+
+  const sync = (entries: DictionaryEntry[]) => {
+    const ids = new Set(entries.map(entry => entry.id));
+    Array.from(indexed.keys()).filter(id => !ids.has(id)).forEach(remove);
+    // Entries are immutable, so a new object means new content
+    entries.filter(entry => indexed.get(entry.id) !== entry).forEach(add);
+  };
+
+  const search = (query: string) => {
+    const queryTokens = tokenize(query);
+    let results: Map<string, number> | null = null;
+
+    for (const { value, cjk } of queryTokens) {
+      const matches = new Map<string, number>();
+      const collect = (posting: Map<string, number>) =>
+        posting.forEach((weight, id) => matches.set(id, Math.max(matches.get(id) || 0, weight)));
+
+      if (cjk && Array.from(value).length > 1) {
+        const posting = postings.get(value);
+        if (posting) collect(posting);
+      } else if (cjk) {
+        // A lone character matches any bigram containing it
+        postings.forEach((posting, token) => {
+          if (token.includes(value)) collect(posting);
+        });
+      } else {
+        postings.forEach((posting, token) => {
+          if (token.startsWith(value)) collect(posting);
+        });
+      }
+
+      const previous: Map<string, number> | null = results;
+      results = previous
+        ? new Map(Array.from(matches).filter(([id]) => previous.has(id)).map(([id, w]) => [id, w + previous.get(id)!]))
+        : matches;
+      if (results.size === 0) break;
+    }
+    return results || new Map();
+  };
+
+  return { sync, add, remove, search };
+};
+
+// --- Sorting ---
+
+// Higher is harder: low ease, repeated lapses and missed quiz answers.
+// Unstudied words sit in the middle.
+const difficulty = (entry: DictionaryEntry) =>
+  (entry.review ? (3.5 - entry.review.ease) + entry.review.lapses : 1) + (entry.quiz ? 1 - entry.quiz.correct / Math.max(1, entry.quiz.attempts) : 0);
+
+export const sortEntries = (
+  entries: DictionaryEntry[],
+  sort: NotebookSort,
+  locale: string,
+  scores?: Map<string, number>
+): DictionaryEntry[] => {
+  const sorted = [...entries];
+  switch (sort) {
+    case 'relevance':
+      return scores
+        ? sorted.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0) || b.savedAt - a.savedAt)
+        : sorted.sort((a, b) => b.savedAt - a.savedAt);
+    case 'recent':
+      return sorted.sort((a, b) => b.savedAt - a.savedAt);
+    case 'alphabetical':
+      return sorted.sort((a, b) => a.term.localeCompare(b.term, locale, { sensitivity: 'base' }));
+    case 'due':
+      // Unstudied words are due now
+      return sorted.sort((a, b) => (a.review?.due ?? 0) - (b.review?.due ?? 0));
+    case 'difficulty':
+      return sorted.sort((a, b) => difficulty(b) - difficulty(a));
+  }
+};
@@ -0,0 +1,39 @@
+import type { InlineMedia } from "./aiProvider";
+
+// --- Photo Input ---
+// Phone photos are often 10+ megapixels. Text on a menu or sign stays
+// readable at a fraction of that, and a smaller JPEG keeps both the model
+// request and the copy stored with the word small.
+
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+
+export interface PreparedPhoto {
+  media: InlineMedia; // For the model
+  dataUrl: string; // For display and for storing with the word
+}
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("This file couldn't be read as an image."));
+    image.src = url;
+  });
+
+export const preparePhoto = async (file: Blob): Promise<PreparedPhoto> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const dataUrl = canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+    return { media: { mimeType: "image/jpeg", data: dataUrl.split(",")[1] }, dataUrl };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
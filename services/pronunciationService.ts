@@ -0,0 +1,104 @@
+import { DictionaryEntry, PronunciationAssessment } from "../types";
+import type { InlineMedia } from "./aiProvider";
+
+// --- Recording ---
+// MediaRecorder output differs per browser (WebM/Opus, MP4/AAC), so clips are
+// decoded and re-encoded as 16 kHz mono WAV, which every model accepts.
+
+const WAV_SAMPLE_RATE = 16000;
+const MAX_RECORDING_MS = 8000; // Plenty for a word or phrase
+const MAX_ATTEMPTS = 20;
+
+export interface RecordingSession {
+  // Stops recording (if still running) and resolves with the clip
+  stop(): Promise<InlineMedia>;
+  cancel(): void;
+}
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// 16-bit PCM in a RIFF container
+const encodeWav = (samples: Float32Array, sampleRate: number): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeText = (offset: number, text: string) =>
+    Array.from(text).forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeText(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, "WAVE");
+  writeText(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeText(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Uint8Array(view.buffer);
+};
+
+const toWav = async (clip: Blob): Promise<InlineMedia> => {
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, WAV_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(await clip.arrayBuffer());
+  return { mimeType: "audio/wav", data: encodeBase64(encodeWav(decoded.getChannelData(0), WAV_SAMPLE_RATE)) };
+};
+
+// Asks for the microphone and starts recording. `onAutoStop` fires if the
+// time limit ends the recording; call stop() to collect the clip.
+export const startRecording = async (onAutoStop?: () => void): Promise<RecordingSession> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop()); // Turns off the mic indicator
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    };
+  });
+
+  const stopRecorder = () => {
+    clearTimeout(timer);
+    if (recorder.state !== "inactive") recorder.stop();
+  };
+  const timer = setTimeout(() => {
+    stopRecorder();
+    onAutoStop?.();
+  }, MAX_RECORDING_MS);
+
+  recorder.start();
+  return {
+    async stop() {
+      stopRecorder();
+      return toWav(await stopped);
+    },
+    cancel: stopRecorder,
+  };
+};
+
+// --- Progress ---
+
+// Records an assessment on the entry, keeping only the most recent attempts
+export const appendAttempt = (entry: DictionaryEntry, assessment: PronunciationAssessment, at = Date.now()): DictionaryEntry => ({
+  ...entry,
+  pronunciation: [...(entry.pronunciation || []), { ...assessment, at }].slice(-MAX_ATTEMPTS),
+});
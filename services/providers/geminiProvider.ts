@@ -0,0 +1,150 @@
+import { ApiError, GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import type { ChatMessage } from "../../types";
+import type { AIProvider, ChatSession, InlineMedia, JSONRequest } from "../aiProvider";
+import { ParseError, QuotaError, SafetyBlockError, ServiceUnavailableError, toAIError } from "../errors";
+
+// Created on first use so that selecting another provider never requires an API key
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+// Maps SDK failures onto our typed errors
+const translateError = (error: unknown) => {
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new QuotaError(undefined, error);
+    if (error.status >= 500) return new ServiceUnavailableError(undefined, error);
+  }
+  return toAIError(error);
+};
+
+const call = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    throw translateError(error);
+  }
+};
+
+// A blocked prompt or response comes back as a normal response with no content
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === "SAFETY" || finishReason === "PROHIBITED_CONTENT") {
+    throw new SafetyBlockError(undefined, blockReason || finishReason);
+  }
+};
+
+// Like `call`, for streaming responses. Errors can surface on the initial
+// request or part way through the stream.
+async function* callStream(
+  request: () => Promise<AsyncGenerator<GenerateContentResponse>>
+): AsyncGenerator<string> {
+  try {
+    for await (const chunk of await request()) {
+      assertNotBlocked(chunk);
+      if (chunk.text) yield chunk.text;
+    }
+  } catch (error) {
+    throw translateError(error);
+  }
+}
+
+// A plain prompt, or a single turn with the media parts ahead of the text
+const toContents = ({ prompt, media }: JSONRequest) =>
+  media?.length
+    ? [{ role: "user", parts: [...media.map(inlineData => ({ inlineData })), { text: prompt }] }]
+    : prompt;
+
+export const geminiProvider: AIProvider = {
+  name: "gemini",
+
+  async generateJSON(request: JSONRequest): Promise<string> {
+    const response = await call(() => getClient().models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: toContents(request),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: request.schema,
+      },
+    }));
+    assertNotBlocked(response);
+    return response.text || "";
+  },
+
+  streamJSON(request: JSONRequest): AsyncIterable<string> {
+    return callStream(() => getClient().models.generateContentStream({
+      model: "gemini-2.5-flash",
+      contents: toContents(request),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: request.schema,
+      },
+    }));
+  },
+
+  async generateImage(prompt: string): Promise<InlineMedia | null> {
+    // Using gemini-2.5-flash-image for generation as per guide
+    const response = await call(() => getClient().models.generateContent({
+      model: "gemini-2.5-flash-image",
+      contents: {
+        parts: [{ text: prompt }],
+      },
+      config: {
+        // Note: 2.5-flash-image doesn't support aspect ratio config in generateContent broadly like Imagen,
+        // but we use defaults. It returns inlineData.
+      },
+    }));
+    assertNotBlocked(response);
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return { mimeType: part.inlineData.mimeType || "image/png", data: part.inlineData.data };
+      }
+    }
+    return null;
+  },
+
+  async synthesizeSpeech(text: string, voiceName: string): Promise<string> {
+    const response = await call(() => getClient().models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [{ parts: [{ text: text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voiceName },
+          },
+        },
+      },
+    }));
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new ParseError("The AI response had no audio.");
+    return base64Audio;
+  },
+
+  createChat(systemInstruction: string, history: ChatMessage[] = []): ChatSession {
+    const chat = getClient().chats.create({
+      model: "gemini-2.5-flash",
+      config: {
+        systemInstruction: systemInstruction,
+      },
+      history: history.map(({ role, text }) => ({ role, parts: [{ text }] })),
+    });
+    return {
+      async sendMessage(message: string) {
+        const result = await call(() => chat.sendMessage({ message }));
+        assertNotBlocked(result);
+        return result.text || "";
+      },
+      sendMessageStream(message: string) {
+        return callStream(() => chat.sendMessageStream({ message }));
+      },
+    };
+  },
+};
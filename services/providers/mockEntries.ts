@@ -0,0 +1,16 @@
+import type { DictionaryEntry } from "../../types";
+import { validateLookupData } from "../validation";
+import { JSON_FIXTURES } from "./mockFixtures";
+
+// A saved entry as the mock provider would have looked it up, so tests get
+// realistic notebooks without a model. `overrides` sets anything else.
+export const mockEntry = (term: string, overrides: Partial<DictionaryEntry> = {}): DictionaryEntry => ({
+  id: term,
+  term,
+  savedAt: 0,
+  nativeLang: "en",
+  targetLang: "es",
+  tags: [],
+  ...validateLookupData(JSON.stringify(JSON_FIXTURES.lookup({ term, nativeLang: "English", targetLang: "Spanish" }))),
+  ...overrides,
+});
@@ -0,0 +1,94 @@
+import type { AITask } from "../aiProvider";
+
+// --- Fixtures for the mock provider ---
+// Responses are built only from request params so the same input always
+// produces the same output.
+
+type Fixture = (params: Record<string, string>) => unknown;
+
+export const JSON_FIXTURES: Record<AITask, Fixture> = {
+  lookup: ({ term, nativeLang, targetLang }) => ({
+    lemma: term,
+    definition: `[mock] A ${targetLang} word or phrase, "${term}", explained in ${nativeLang}.`,
+    phonetic: `/${term.toLowerCase()}/`,
+    examples: [
+      { target: `${term}! (${targetLang} example one)`, native: `${term}! (${nativeLang} translation one)` },
+      { target: `I like ${term}. (${targetLang} example two)`, native: `I like ${term}. (${nativeLang} translation two)` },
+    ],
+    usageGuide: `This is mock data for "${term}" — no model was called. Set AI_PROVIDER=gemini to get real explanations.`,
+    partOfSpeech: "noun",
+    gender: "feminine",
+    inflections: [
+      { title: "Number", rows: [{ label: "singular", form: term }, { label: "plural", form: `${term}s` }] },
+    ],
+    senses: [
+      { definition: `[mock] The everyday meaning of "${term}".`, examples: [{ target: `${term} (${targetLang})`, native: `${term} (${nativeLang})` }] },
+      { definition: `[mock] A figurative meaning of "${term}".`, examples: [] },
+    ],
+    synonyms: [`${term}-like`],
+    antonyms: [`un${term}`],
+    collocations: [`a lot of ${term}`, `${term} time`],
+  }),
+
+  story: ({ words, nativeLang, targetLang, level, genre }) => {
+    const terms = words.split(", ");
+    return {
+      title: `[mock] A ${level} ${genre.toLowerCase()} story in ${targetLang}`,
+      sentences: [
+        ...terms.map(term => ({
+          target: `Once there was ${term}.`,
+          native: `(${nativeLang}) Once there was ${term}.`,
+          words: [{ form: term, term }],
+        })),
+        { target: "They all lived happily ever after.", native: `(${nativeLang}) They all lived happily ever after.`, words: [] },
+      ],
+      questions: [
+        { question: "[mock] How does the story end?", choices: ["Happily", "Sadly", "It doesn't"], answer: 0 },
+        { question: "[mock] Which word comes first?", choices: [terms[terms.length - 1], terms[0]], answer: 1 },
+      ],
+    };
+  },
+
+  sentence: ({ sentence, nativeLang }) => {
+    const words = sentence.split(/\s+/).map(word => word.replace(/[.,!?¡¿;:"]/g, "")).filter(Boolean);
+    return {
+      translation: `[mock] "${sentence}" in natural ${nativeLang}.`,
+      tokens: words.map(word => ({ text: word, lemma: word.toLowerCase(), gloss: `(${word})`, partOfSpeech: "word" })),
+      grammar: [
+        { title: "[mock] Word order", explanation: "This breakdown is placeholder data — no model was called." },
+      ],
+    };
+  },
+
+  suggestion: ({ targetLang, day }) => ({
+    term: MOCK_SUGGESTIONS[hashString(`${targetLang}:${day}`) % MOCK_SUGGESTIONS.length],
+  }),
+
+  ocr: ({ targetLang }) => ({
+    lines: [`[mock] ${targetLang} menu`, "Café con leche", "Tostada con tomate"],
+    phrases: ["café con leche", "tostada con tomate"],
+  }),
+
+  // The clip itself isn't inspected; its size varies the score between attempts
+  pronunciation: ({ term, phonetic, audioBytes }) => ({
+    transcript: term,
+    score: 55 + (hashString(`${term}:${audioBytes}`) % 45),
+    feedback: `[mock] Close! This score is made up — no model listened to your recording.`,
+    tips: [`Compare your vowels with ${phonetic || `the recording of "${term}"`}.`, "Try saying it a little slower."],
+  }),
+};
+
+const MOCK_SUGGESTIONS = ["sunrise", "market", "journey", "friendship", "breakfast", "umbrella", "library"];
+
+// Stable string hash, used to vary colors and tones per input
+export const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// `turn` counts the user's messages, including any from a resumed thread
+export const mockChatReply = (systemInstruction: string, message: string, turn: number): string =>
+  `[mock tutor #${turn}] You asked: "${message}". In a real session I'd answer using: ${systemInstruction.trim().split("\n")[0]}`;
@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { Type } from "@google/genai";
+import { findLanguage } from "../../constants";
+import { JSONRequest, setProvider } from "../aiProvider";
+import { createChatSession, lookupTerm } from "../geminiService";
+import { DEFAULT_LEARNER_PROFILE } from "../learnerProfile";
+import { mockProvider } from "./mockProvider";
+
+const english = findLanguage("en")!;
+const spanish = findLanguage("es")!;
+
+const lookupRequest = (term: string): JSONRequest => ({
+  task: "lookup",
+  prompt: `Analyze the term "${term}"`,
+  schema: { type: Type.OBJECT },
+  params: { term, nativeLang: "English", targetLang: "Spanish" },
+});
+
+const collect = async (stream: AsyncIterable<string>): Promise<string[]> => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe("mockProvider", () => {
+  it("answers the same request the same way", async () => {
+    const first = await mockProvider.generateJSON(lookupRequest("gato"));
+    expect(await mockProvider.generateJSON(lookupRequest("gato"))).toBe(first);
+    expect(await mockProvider.generateJSON(lookupRequest("perro"))).not.toBe(first);
+  });
+
+  it("streams the same JSON it returns whole, in several chunks", async () => {
+    const chunks = await collect(mockProvider.streamJSON(lookupRequest("gato")));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(await mockProvider.generateJSON(lookupRequest("gato")));
+  });
+
+  it("draws an image that depends on the prompt", async () => {
+    const image = await mockProvider.generateImage("a cat");
+    expect(image?.mimeType).toBe("image/svg+xml");
+    expect(await mockProvider.generateImage("a cat")).toEqual(image);
+    expect(await mockProvider.generateImage("a dog")).not.toEqual(image);
+  });
+
+  it("synthesizes 16-bit PCM", async () => {
+    const bytes = atob(await mockProvider.synthesizeSpeech("hola", "Puck")).length;
+    expect(bytes).toBeGreaterThan(0);
+    expect(bytes % 2).toBe(0);
+  });
+
+  it("keeps counting turns in a resumed chat", async () => {
+    const chat = mockProvider.createChat("You are a tutor.", [
+      { role: "user", text: "What does it mean?" },
+      { role: "model", text: "It means cat." },
+    ]);
+    expect(await chat.sendMessage("And the plural?")).toContain("#2");
+    expect((await collect(chat.sendMessageStream("Thanks!"))).join("")).toContain("#3");
+  });
+});
+
+describe("the app's AI calls on the mock provider", () => {
+  beforeAll(() => setProvider(mockProvider));
+
+  it("looks up a word, streaming the text before the image", async () => {
+    const updates: boolean[] = [];
+    const entry = await lookupTerm("gato", english, spanish, DEFAULT_LEARNER_PROFILE, (_, isTextComplete) => {
+      updates.push(isTextComplete);
+    });
+    expect(entry).toMatchObject({ term: "gato", nativeLang: "en", targetLang: "es", tags: [] });
+    expect(entry.definition).toContain("gato");
+    expect(entry.examples).toHaveLength(2);
+    expect(entry.imageUrl).toMatch(/^data:image\/svg\+xml;base64,/);
+    expect(updates[updates.length - 1]).toBe(true);
+    expect(updates.filter(isTextComplete => isTextComplete)).toHaveLength(1);
+  });
+
+  it("chats through a session", async () => {
+    const session = createChatSession("You are a helpful language tutor assistant.");
+    expect(await session.sendMessage("Hola")).toContain("Hola");
+  });
+});
@@ -0,0 +1,73 @@
+import type { ChatMessage } from "../../types";
+import type { AIProvider, ChatSession, InlineMedia, JSONRequest } from "../aiProvider";
+import { JSON_FIXTURES, hashString, mockChatReply } from "./mockFixtures";
+
+// A deterministic, offline stand-in for a model backend. Selected with
+// AI_PROVIDER=mock; useful for UI work and for tests.
+
+const SAMPLE_RATE = 24000;
+const MAX_TONE_SECONDS = 3;
+const STREAM_CHUNK_CHARS = 24;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Replays a finished text in fixed-size chunks, to exercise streaming UIs
+async function* streamText(text: string): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+    await sleep(STREAM_CHUNK_DELAY_MS);
+    yield text.slice(i, i + STREAM_CHUNK_CHARS);
+  }
+}
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const mockProvider: AIProvider = {
+  name: "mock",
+
+  async generateJSON({ task, params }: JSONRequest): Promise<string> {
+    return JSON.stringify(JSON_FIXTURES[task](params));
+  },
+
+  streamJSON({ task, params }: JSONRequest): AsyncIterable<string> {
+    return streamText(JSON.stringify(JSON_FIXTURES[task](params)));
+  },
+
+  async generateImage(prompt: string): Promise<InlineMedia | null> {
+    const hue = hashString(prompt) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400">`
+      + `<rect width="400" height="400" fill="hsl(${hue}, 80%, 85%)"/>`
+      + `<circle cx="200" cy="200" r="120" fill="hsl(${(hue + 180) % 360}, 70%, 60%)"/>`
+      + `</svg>`;
+    return { mimeType: "image/svg+xml", data: btoa(svg) };
+  },
+
+  // A short sine tone whose pitch depends on the text, as 16-bit PCM
+  async synthesizeSpeech(text: string, voiceName: string): Promise<string> {
+    const seconds = Math.min(MAX_TONE_SECONDS, 0.3 + text.length * 0.05);
+    const frequency = 220 + (hashString(`${voiceName}:${text}`) % 440);
+    const samples = new Int16Array(Math.floor(SAMPLE_RATE * seconds));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.2 * 32767;
+    }
+    return encodeBase64(new Uint8Array(samples.buffer));
+  },
+
+  createChat(systemInstruction: string, history: ChatMessage[] = []): ChatSession {
+    let turn = history.filter(message => message.role === "user").length;
+    return {
+      async sendMessage(message: string) {
+        return mockChatReply(systemInstruction, message, ++turn);
+      },
+      sendMessageStream(message: string) {
+        return streamText(mockChatReply(systemInstruction, message, ++turn));
+      },
+    };
+  },
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { mockEntry } from "./providers/mockEntries";
+import { foldText } from "./notebookSearch";
+import { AnswerVerdict, buildQuiz, checkAnswer, isCorrect, recordQuizAnswer } from "./quizEngine";
+
+// Reproducible stand-in for Math.random
+const seeded = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+describe('checkAnswer', () => {
+  it('ignores case and punctuation', () => {
+    expect(checkAnswer('hola', '¡Hola!')).toBe('exact');
+    expect(checkAnswer('  Buenos   días. ', 'buenos días')).toBe('exact');
+  });
+
+  it('accepts a missing or wrong accent, and says so', () => {
+    expect(checkAnswer('cafe', 'café')).toBe('accent');
+    expect(checkAnswer('arbol', 'árbol')).toBe('accent');
+    expect(checkAnswer('елка', 'Ёлка')).toBe('accent');
+  });
+
+  it('forgives a typo in proportion to the length of the answer', () => {
+    expect(checkAnswer('mariposs', 'mariposa')).toBe('typo');
+    expect(checkAnswer('arbl', 'árbol')).toBe('typo');
+    expect(checkAnswer('el gato dureme en la cmaa', 'el gato duerme en la cama')).toBe('typo');
+    expect(checkAnswer('mariposs', 'mariposa!')).toBe('typo');
+    expect(checkAnswer('marisposs', 'mariposa')).toBe('wrong');
+  });
+
+  it('allows no typos in very short answers', () => {
+    expect(checkAnswer('sal', 'sol')).toBe('wrong');
+    expect(checkAnswer('图书官', '图书馆')).toBe('wrong');
+  });
+
+  it('marks an empty answer wrong', () => {
+    expect(checkAnswer('  ?! ', 'hola')).toBe('wrong');
+  });
+
+  it('counts accent slips and typos as correct', () => {
+    const verdicts: AnswerVerdict[] = ['exact', 'accent', 'typo', 'wrong'];
+    expect(verdicts.map(isCorrect)).toEqual([true, true, true, false]);
+  });
+});
+
+describe('buildQuiz', () => {
+  const definitionsOnly = { size: 10, kinds: ['definition' as const] };
+
+  it('offers each definition once, and never the answer twice', () => {
+    const entries = [
+      mockEntry('gato', { definition: 'A cat.' }),
+      mockEntry('minino', { definition: 'a cat' }),
+      mockEntry('felino', { definition: 'A CAT!' }),
+      mockEntry('perro', { definition: 'A dog.' }),
+      mockEntry('can', { definition: 'A dog' }),
+      mockEntry('pájaro', { definition: 'A bird.' }),
+    ];
+    for (let seed = 1; seed <= 20; seed++) {
+      buildQuiz(entries, definitionsOnly, seeded(seed)).forEach(exercise => {
+        const keys = exercise.choices!.map(choice => foldText(choice.replace(/[.!]/g, '')));
+        expect(new Set(keys).size).toBe(keys.length);
+        expect(exercise.choices).toContain(exercise.answer);
+      });
+    }
+  });
+
+  it('skips a definition question when every other word means the same', () => {
+    const entries = [mockEntry('gato', { definition: 'A cat' }), mockEntry('minino', { definition: 'a cat.' })];
+    expect(buildQuiz(entries, definitionsOnly, seeded(1))).toEqual([]);
+  });
+
+  it('blanks the word out of an example for cloze questions', () => {
+    const [exercise] = buildQuiz([mockEntry('gato')], { size: 1, kinds: ['cloze'] }, seeded(1));
+    expect(exercise).toMatchObject({ kind: 'cloze', answer: 'gato' });
+    expect(exercise.prompt).toContain('_____');
+    expect(exercise.prompt).not.toContain('gato');
+  });
+
+  it('asks about the weakest words first', () => {
+    const entries = [
+      mockEntry('fácil', { quiz: { attempts: 5, correct: 5, streak: 5, lastQuizzed: 0 } }),
+      mockEntry('difícil', { quiz: { attempts: 5, correct: 1, streak: 0, lastQuizzed: 0 } }),
+    ];
+    const quiz = buildQuiz(entries, { size: 1, kinds: ['listening'] }, seeded(3));
+    expect(quiz.map(exercise => exercise.answer)).toEqual(['difícil']);
+  });
+});
+
+describe('recordQuizAnswer', () => {
+  it('counts attempts and resets the streak on a miss', () => {
+    const twice = recordQuizAnswer(recordQuizAnswer(undefined, true, 1), true, 2);
+    expect(twice).toEqual({ attempts: 2, correct: 2, streak: 2, lastQuizzed: 2 });
+    expect(recordQuizAnswer(twice, false, 3)).toEqual({ attempts: 3, correct: 2, streak: 0, lastQuizzed: 3 });
+  });
+});
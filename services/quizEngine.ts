@@ -0,0 +1,185 @@
+import { DictionaryEntry, QuizStats } from "../types";
+import { foldText } from "./notebookSearch";
+
+// --- Quiz Engine ---
+// Builds exercises from saved entries and checks typed answers. Like the
+// scheduler this is pure: pass `random` and `now` in to reproduce a quiz.
+
+export type QuizExerciseKind = 'definition' | 'cloze' | 'listening' | 'reverse';
+
+export interface QuizExercise {
+  id: string;
+  kind: QuizExerciseKind;
+  entryId: string;
+  prompt: string; // Term, sentence with a gap, or native sentence; empty for listening
+  answer: string;
+  choices?: string[]; // Multiple choice only, answer included
+  hint?: string;
+  audioText?: string; // Played instead of showing a prompt
+}
+
+export interface QuizOptions {
+  size: number;
+  kinds: QuizExerciseKind[];
+}
+
+export const DEFAULT_QUIZ_OPTIONS: QuizOptions = {
+  size: 10,
+  kinds: ['definition', 'cloze', 'listening', 'reverse'],
+};
+
+const CHOICES = 4;
+const GAP = '_____';
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Blanks out the term in an example sentence, or returns null if the
+// sentence doesn't contain it verbatim (e.g. it uses an inflected form)
+const makeCloze = (sentence: string, term: string): string | null => {
+  const pattern = new RegExp(escapeRegExp(term.trim()), 'iu');
+  return pattern.test(sentence) ? sentence.replace(pattern, GAP) : null;
+};
+
+// Definitions that differ only in case, accents or punctuation are the same choice
+const definitionKey = (definition: string) => foldText(stripPunctuation(definition));
+
+// Words answered wrongly, or not yet quizzed, come up first
+const weakness = (entry: DictionaryEntry) =>
+  entry.quiz ? 1 - entry.quiz.correct / Math.max(1, entry.quiz.attempts) + 1 / (2 + entry.quiz.streak) : 1;
+
+const buildExercise = (
+  entry: DictionaryEntry,
+  kind: QuizExerciseKind,
+  pool: DictionaryEntry[],
+  random: () => number
+): QuizExercise | null => {
+  const id = `${entry.id}-${kind}`;
+  const example = entry.examples.find(ex => makeCloze(ex.target, entry.term)) || entry.examples[0];
+
+  switch (kind) {
+    case 'definition': {
+      // Synonyms or a re-imported word can share a definition; a choice
+      // identical to the answer (or to another choice) can't be marked wrong
+      const seen = new Set([definitionKey(entry.definition)]);
+      const distractors = shuffle(pool.filter(other => other.id !== entry.id && other.definition), random)
+        .map(other => other.definition)
+        .filter(definition => {
+          const key = definitionKey(definition);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, CHOICES - 1);
+      if (!entry.definition || distractors.length === 0) return null;
+      return {
+        id, kind, entryId: entry.id,
+        prompt: entry.term,
+        answer: entry.definition,
+        choices: shuffle([entry.definition, ...distractors], random),
+      };
+    }
+    case 'cloze': {
+      const cloze = example && makeCloze(example.target, entry.term);
+      if (!cloze) return null;
+      return { id, kind, entryId: entry.id, prompt: cloze, answer: entry.term, hint: example.native };
+    }
+    case 'listening':
+      return { id, kind, entryId: entry.id, prompt: '', answer: entry.term, audioText: entry.term };
+    case 'reverse':
+      if (!example?.native) return null;
+      return { id, kind, entryId: entry.id, prompt: example.native, answer: example.target, hint: entry.term };
+  }
+};
+
+// One exercise per word, weakest words first, with the exercise kinds mixed.
+// Words that can't support a kind (no matching example, too few distractors)
+// fall back to another.
+export const buildQuiz = (
+  entries: DictionaryEntry[],
+  options: QuizOptions = DEFAULT_QUIZ_OPTIONS,
+  random: () => number = Math.random
+): QuizExercise[] => {
+  const picked = shuffle(entries, random)
+    .sort((a, b) => weakness(b) - weakness(a))
+    .slice(0, options.size);
+
+  return shuffle(picked, random)
+    .map((entry, i) => {
+      const start = (i + Math.floor(random() * options.kinds.length)) % options.kinds.length;
+      const order = [...options.kinds.slice(start), ...options.kinds.slice(0, start)];
+      for (const kind of order) {
+        const exercise = buildExercise(entry, kind, entries, random);
+        if (exercise) return exercise;
+      }
+      return null;
+    })
+    .filter((exercise): exercise is QuizExercise => exercise !== null);
+};
+
+// --- Answer Checking ---
+
+// 'accent' and 'typo' count as correct but are worth pointing out
+export type AnswerVerdict = 'exact' | 'accent' | 'typo' | 'wrong';
+
+const stripPunctuation = (text: string) =>
+  text.normalize('NFC').replace(/[\p{P}\p{S}]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Edit distance over code points, so one CJK character is one edit
+const levenshtein = (a: string, b: string): number => {
+  const x = Array.from(a);
+  const y = Array.from(b);
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[y.length];
+};
+
+// Short words get one slip; longer answers about one per six characters
+const typoAllowance = (answer: string) => {
+  const length = Array.from(answer).length;
+  return length <= 3 ? 0 : Math.max(1, Math.floor(length / 6));
+};
+
+export const checkAnswer = (input: string, answer: string): AnswerVerdict => {
+  const given = stripPunctuation(input);
+  const expected = stripPunctuation(answer);
+  if (!given) return 'wrong';
+  if (given.toLowerCase() === expected.toLowerCase()) return 'exact';
+
+  const foldedGiven = foldText(given);
+  const foldedExpected = foldText(expected);
+  if (foldedGiven === foldedExpected) return 'accent';
+  return levenshtein(foldedGiven, foldedExpected) <= typoAllowance(foldedExpected) ? 'typo' : 'wrong';
+};
+
+export const isCorrect = (verdict: AnswerVerdict) => verdict !== 'wrong';
+
+// --- Stats ---
+
+export const recordQuizAnswer = (stats: QuizStats | undefined, correct: boolean, now: number): QuizStats => ({
+  attempts: (stats?.attempts || 0) + 1,
+  correct: (stats?.correct || 0) + (correct ? 1 : 0),
+  streak: correct ? (stats?.streak || 0) + 1 : 0,
+  lastQuizzed: now,
+});
+
+export const quizAccuracy = (stats?: QuizStats): number | null =>
+  stats && stats.attempts > 0 ? stats.correct / stats.attempts : null;
@@ -0,0 +1,70 @@
+// --- Review Reminders ---
+// Opt-in notifications when flashcards come due. The page tells the service
+// worker (public/sw.js) when the next review is due; the worker decides
+// whether to notify, so there is a single place that words the reminder and
+// skips it while the app is on screen.
+//
+// Browsers can't wake a worker at an exact time. While the app is open, even
+// in a background tab, a timer here pokes the worker at the due time. Where
+// Periodic Background Sync exists (Chromium, installed app) the worker also
+// checks a couple of times a day with the app closed.
+
+export type ReminderPermission = NotificationPermission | "unsupported";
+
+const SYNC_TAG = "due-reminder";
+const SYNC_INTERVAL = 12 * 60 * 60 * 1000;
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000; // Later reminders wait for the next schedule call
+const MIN_TIMER_DELAY = 5 * 1000; // Cards already due are reminded about shortly after scheduling
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncManager {
+  register(tag: string, options: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+}
+
+const getPeriodicSync = (registration: ServiceWorkerRegistration): PeriodicSyncManager | undefined =>
+  (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+
+const postToWorker = async (message: object) => {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+};
+
+export const getReminderPermission = (): ReminderPermission =>
+  "Notification" in window && "serviceWorker" in navigator ? Notification.permission : "unsupported";
+
+// Asks for permission if needed. Resolves to whether reminders are now on.
+export const enableReminders = async (): Promise<boolean> => {
+  if (getReminderPermission() === "unsupported") return false;
+  if (await Notification.requestPermission() !== "granted") return false;
+
+  const registration = await navigator.serviceWorker.ready;
+  await getPeriodicSync(registration)?.register(SYNC_TAG, { minInterval: SYNC_INTERVAL })
+    .catch(error => console.warn("Periodic sync unavailable, reminders only fire while the app is open:", error));
+  return true;
+};
+
+export const disableReminders = async (): Promise<void> => {
+  await postToWorker({ type: "reminder-schedule", dueAt: null, count: 0 });
+  if (!("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  await getPeriodicSync(registration)?.unregister(SYNC_TAG)
+    .catch(error => console.warn("Failed to stop periodic sync:", error));
+};
+
+// Records the next due review with the worker and, if it falls within a day,
+// sets a timer to remind at that moment, or shortly if cards are already
+// due. Returns a cleanup that clears the timer; call again whenever the
+// schedule changes.
+export const scheduleReminder = (dueAt: number | null, count: number): (() => void) => {
+  postToWorker({ type: "reminder-schedule", dueAt, count })
+    .catch(error => console.warn("Failed to schedule reminder:", error));
+
+  const delay = dueAt === null ? Infinity : Math.max(dueAt - Date.now(), MIN_TIMER_DELAY);
+  if (delay > MAX_TIMER_DELAY) return () => {};
+  const timer = setTimeout(() => {
+    postToWorker({ type: "reminder-due" }).catch(error => console.warn("Failed to show reminder:", error));
+  }, delay);
+  return () => clearTimeout(timer);
+};
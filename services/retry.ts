@@ -0,0 +1,30 @@
+import { toAIError } from "./errors";
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelayMs: 800 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs `task` until it succeeds, retrying retryable AIErrors with
+// exponential backoff and jitter. Always rejects with an AIError.
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const aiError = toAIError(error);
+      if (!aiError.retryable || attempt >= options.attempts) throw aiError;
+
+      const delay = options.baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      console.warn(`AI request failed (${aiError.kind}), retrying in ${Math.round(delay)}ms`, aiError);
+      await sleep(delay);
+    }
+  }
+};
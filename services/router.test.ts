@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { ViewState } from "../types";
+import { Route, parsePath, routeToPath } from "./router";
+
+describe("routeToPath and parsePath", () => {
+  const routes: [Route, string][] = [
+    [{ view: ViewState.HOME }, "/"],
+    [{ view: ViewState.RESULT, targetLang: "es", term: "hola" }, "/learn/es/word/hola"],
+    [{ view: ViewState.SENTENCE, targetLang: "es", text: "¿Qué tal?" }, "/learn/es/sentence/%C2%BFQu%C3%A9%20tal%3F"],
+    [{ view: ViewState.NOTEBOOK }, "/notebook"],
+    [{ view: ViewState.FLASHCARDS }, "/flashcards"],
+    [{ view: ViewState.QUIZ }, "/quiz"],
+    [{ view: ViewState.READER }, "/reader"],
+    [{ view: ViewState.SETTINGS }, "/settings"],
+    [{ view: ViewState.STATS }, "/stats"],
+    [{ view: ViewState.STORY }, "/story"],
+    [{ view: ViewState.STORY, storyId: "1700000000000" }, "/story/1700000000000"],
+  ];
+
+  it.each(routes)("round-trips %j", (route, path) => {
+    expect(routeToPath(route)).toBe(path);
+    expect(parsePath(path)).toEqual(route);
+  });
+
+  it("escapes terms that contain slashes or non-Latin text", () => {
+    const route: Route = { view: ViewState.RESULT, targetLang: "ja", term: "a/b 東京" };
+    expect(routeToPath(route)).toBe("/learn/ja/word/a%2Fb%20%E6%9D%B1%E4%BA%AC");
+    expect(parsePath(routeToPath(route))).toEqual(route);
+  });
+});
+
+describe("parsePath", () => {
+  it("ignores a trailing slash", () => {
+    expect(parsePath("/notebook/")).toEqual({ view: ViewState.NOTEBOOK });
+  });
+
+  it.each([
+    "/unknown",
+    "/notebook/extra",
+    "/learn/es/word",
+    "/learn/es/word/%20",
+    "/learn/es/phrase/hola",
+    "/learn/es/word/%E0%A4%A",
+    "/story/a/b",
+  ])("falls back to home for %s", (path) => {
+    expect(parsePath(path)).toEqual({ view: ViewState.HOME });
+  });
+});
@@ -0,0 +1,95 @@
+import { ViewState } from "../types";
+
+// --- Routes ---
+// Every screen except onboarding has a URL, so the back button moves between
+// screens and a word can be shared as a link. The native language is not
+// part of a term URL: whoever opens it sees the word in their own language.
+
+export type Route =
+  | { view: ViewState.HOME }
+  | { view: ViewState.RESULT; targetLang: string; term: string }
+  | { view: ViewState.SENTENCE; targetLang: string; text: string }
+  | { view: ViewState.NOTEBOOK }
+  | { view: ViewState.FLASHCARDS }
+  | { view: ViewState.QUIZ }
+  | { view: ViewState.READER }
+  | { view: ViewState.SETTINGS }
+  | { view: ViewState.STATS }
+  | { view: ViewState.STORY; storyId?: string }; // No id while a story is being written
+
+const HOME_ROUTE: Route = { view: ViewState.HOME };
+
+export const routeToPath = (route: Route): string => {
+  switch (route.view) {
+    case ViewState.HOME:
+      return "/";
+    case ViewState.RESULT:
+      return `/learn/${encodeURIComponent(route.targetLang)}/word/${encodeURIComponent(route.term)}`;
+    case ViewState.SENTENCE:
+      return `/learn/${encodeURIComponent(route.targetLang)}/sentence/${encodeURIComponent(route.text)}`;
+    case ViewState.NOTEBOOK:
+      return "/notebook";
+    case ViewState.FLASHCARDS:
+      return "/flashcards";
+    case ViewState.QUIZ:
+      return "/quiz";
+    case ViewState.READER:
+      return "/reader";
+    case ViewState.SETTINGS:
+      return "/settings";
+    case ViewState.STATS:
+      return "/stats";
+    case ViewState.STORY:
+      return route.storyId ? `/story/${encodeURIComponent(route.storyId)}` : "/story";
+  }
+};
+
+const safeDecode = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null; // Malformed escape sequence
+  }
+};
+
+// Unknown or malformed paths fall back to home
+export const parsePath = (pathname: string): Route => {
+  const segments = pathname.split("/").filter(Boolean).map(safeDecode);
+  if (segments.some(segment => segment === null)) return HOME_ROUTE;
+  const [first, ...rest] = segments as string[];
+
+  if (first === "learn" && rest.length === 3 && rest[1] === "word" && rest[2].trim()) {
+    return { view: ViewState.RESULT, targetLang: rest[0], term: rest[2] };
+  }
+  if (first === "learn" && rest.length === 3 && rest[1] === "sentence" && rest[2].trim()) {
+    return { view: ViewState.SENTENCE, targetLang: rest[0], text: rest[2] };
+  }
+  if (first === "notebook" && rest.length === 0) return { view: ViewState.NOTEBOOK };
+  if (first === "flashcards" && rest.length === 0) return { view: ViewState.FLASHCARDS };
+  if (first === "quiz" && rest.length === 0) return { view: ViewState.QUIZ };
+  if (first === "reader" && rest.length === 0) return { view: ViewState.READER };
+  if (first === "settings" && rest.length === 0) return { view: ViewState.SETTINGS };
+  if (first === "stats" && rest.length === 0) return { view: ViewState.STATS };
+  if (first === "story" && rest.length <= 1) return { view: ViewState.STORY, storyId: rest[0] };
+  return HOME_ROUTE;
+};
+
+export const getCurrentRoute = (): Route => parsePath(window.location.pathname);
+
+// --- History ---
+
+// Records `route` in the browser history. Navigating to the current path is
+// a no-op, so re-opening the same screen doesn't stack duplicate entries.
+export const writeRoute = (route: Route, replace = false) => {
+  const path = routeToPath(route);
+  if (path === window.location.pathname) return;
+  if (replace) window.history.replaceState(null, "", path);
+  else window.history.pushState(null, "", path);
+};
+
+// Calls `listener` when the user moves through history with back/forward
+export const subscribeToRoute = (listener: (route: Route) => void): (() => void) => {
+  const handlePopState = () => listener(getCurrentRoute());
+  window.addEventListener("popstate", handlePopState);
+  return () => window.removeEventListener("popstate", handlePopState);
+};
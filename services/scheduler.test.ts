@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { DictionaryEntry, ReviewState } from "../types";
+import {
+  DEFAULT_SCHEDULER_CONFIG, createReviewState, formatInterval, getDueCards, getNextDueAt, scheduleReview,
+} from "./scheduler";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = new Date(2026, 2, 10, 12, 0).getTime(); // Local noon, clear of midnight either way
+
+const card = (id: string, savedAt: number, review?: ReviewState) =>
+  ({ id, term: id, definition: "", examples: [], usageGuide: "", savedAt, review } as DictionaryEntry);
+
+const review = (overrides: Partial<ReviewState>): ReviewState => ({ ...createReviewState(NOW), ...overrides });
+
+describe("scheduleReview", () => {
+  describe("new cards", () => {
+    it("brings a failed card back within the session", () => {
+      const state = scheduleReview(undefined, "again", NOW);
+      expect(state).toMatchObject({ interval: 0, repetitions: 0, lapses: 0, ease: 2.3 });
+      expect(state.due).toBe(NOW + 10 * MINUTE);
+    });
+
+    it("graduates a hard or good card to the graduating interval", () => {
+      expect(scheduleReview(undefined, "hard", NOW)).toMatchObject({ interval: 1, repetitions: 1, ease: 2.35 });
+      const good = scheduleReview(undefined, "good", NOW);
+      expect(good).toMatchObject({ interval: 1, repetitions: 1, ease: 2.5 });
+      expect(good.due).toBe(NOW + DAY);
+    });
+
+    it("skips ahead to the easy interval", () => {
+      expect(scheduleReview(undefined, "easy", NOW)).toMatchObject({ interval: 4, repetitions: 1, ease: 2.65 });
+    });
+
+    it("records when the card was introduced", () => {
+      expect(scheduleReview(undefined, "good", NOW).introducedAt).toBe(NOW);
+    });
+  });
+
+  describe("learning cards", () => {
+    const learning = review({ interval: 1, repetitions: 1, introducedAt: NOW - DAY });
+
+    it("moves a second good to the second interval", () => {
+      expect(scheduleReview(learning, "good", NOW)).toMatchObject({ interval: 3, repetitions: 2 });
+    });
+
+    it("grows a hard card by at least a day", () => {
+      expect(scheduleReview(learning, "hard", NOW)).toMatchObject({ interval: 2, repetitions: 2, ease: 2.35 });
+    });
+
+    it("applies the easy bonus", () => {
+      expect(scheduleReview(learning, "easy", NOW)).toMatchObject({ interval: 3, repetitions: 2, ease: 2.65 });
+    });
+
+    it("keeps the original introduction time", () => {
+      expect(scheduleReview(learning, "good", NOW).introducedAt).toBe(NOW - DAY);
+    });
+  });
+
+  describe("review cards", () => {
+    const mature = review({ interval: 10, repetitions: 3 });
+
+    it("multiplies the interval by the ease", () => {
+      expect(scheduleReview(mature, "hard", NOW)).toMatchObject({ interval: 12 });
+      expect(scheduleReview(mature, "good", NOW)).toMatchObject({ interval: 25 });
+      expect(scheduleReview(mature, "easy", NOW)).toMatchObject({ interval: 34 });
+    });
+
+    it("counts a lapse and starts relearning", () => {
+      const state = scheduleReview(mature, "again", NOW);
+      expect(state).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, ease: 2.3 });
+      expect(state.due).toBe(NOW + 10 * MINUTE);
+    });
+
+    it("caps the interval", () => {
+      expect(scheduleReview(review({ interval: 300, repetitions: 5 }), "good", NOW).interval).toBe(365);
+    });
+  });
+
+  describe("relearning cards", () => {
+    const relearning = review({ ease: 2.3, interval: 0, repetitions: 0, lapses: 1, introducedAt: NOW - 30 * DAY });
+
+    it("doesn't count another lapse when failed again", () => {
+      expect(scheduleReview(relearning, "again", NOW)).toMatchObject({ lapses: 1, repetitions: 0, ease: expect.closeTo(2.1) });
+    });
+
+    it("graduates again from the start", () => {
+      const state = scheduleReview(relearning, "good", NOW);
+      expect(state).toMatchObject({ interval: 1, repetitions: 1, lapses: 1 });
+      expect(state.introducedAt).toBe(NOW - 30 * DAY);
+    });
+  });
+
+  describe("ease", () => {
+    it("never drops below the minimum", () => {
+      expect(scheduleReview(review({ ease: 1.3, interval: 5, repetitions: 2 }), "again", NOW).ease).toBe(1.3);
+    });
+
+    it("never rises above the maximum", () => {
+      expect(scheduleReview(review({ ease: 3.5, interval: 5, repetitions: 2 }), "easy", NOW).ease).toBe(3.5);
+    });
+  });
+});
+
+describe("getDueCards", () => {
+  it("orders relearning, then overdue reviews by urgency, then new cards oldest first", () => {
+    const entries = [
+      card("newer", 2),
+      card("slightly-late", 0, review({ interval: 30, repetitions: 3, due: NOW - DAY })),
+      card("relearning", 0, review({ repetitions: 0, lapses: 1, due: NOW - MINUTE })),
+      card("not-due", 0, review({ interval: 5, repetitions: 2, due: NOW + DAY })),
+      card("very-late", 0, review({ interval: 2, repetitions: 2, due: NOW - 2 * DAY })),
+      card("older", 1),
+    ];
+    expect(getDueCards(entries, NOW).map(e => e.id)).toEqual(["relearning", "very-late", "slightly-late", "older", "newer"]);
+  });
+
+  it("limits new cards per day", () => {
+    const entries = Array.from({ length: 25 }, (_, i) => card(`new-${i}`, i));
+    expect(getDueCards(entries, NOW)).toHaveLength(DEFAULT_SCHEDULER_CONFIG.newCardsPerSession);
+    expect(getDueCards(entries, NOW, { ...DEFAULT_SCHEDULER_CONFIG, newCardsPerSession: 3 })).toHaveLength(3);
+  });
+
+  it("counts cards introduced today against the limit", () => {
+    const entries = Array.from({ length: 25 }, (_, i) => card(`new-${i}`, i));
+    for (let i = 0; i < 5; i++) {
+      entries[i] = { ...entries[i], review: scheduleReview(undefined, "good", NOW - i * MINUTE) };
+    }
+    expect(getDueCards(entries, NOW)).toHaveLength(15);
+  });
+
+  it("doesn't count cards introduced on earlier days", () => {
+    const entries = Array.from({ length: 25 }, (_, i) => card(`new-${i}`, i));
+    for (let i = 0; i < 5; i++) {
+      entries[i] = { ...entries[i], review: scheduleReview(undefined, "good", NOW - 2 * DAY) };
+    }
+    expect(getDueCards(entries, NOW).filter(e => !e.review)).toHaveLength(20);
+  });
+
+  it("offers no new cards once the day's limit is used up", () => {
+    const entries = Array.from({ length: 25 }, (_, i) => card(`new-${i}`, i));
+    const introduced = entries.map(e => ({ ...e, review: scheduleReview(undefined, "good", NOW - MINUTE) }));
+    expect(getDueCards([...introduced, card("extra", 99)], NOW)).toHaveLength(0);
+  });
+});
+
+describe("getNextDueAt", () => {
+  it("is the earliest due review, ignoring new cards", () => {
+    const entries = [card("new", 0), card("a", 0, review({ due: NOW + DAY })), card("b", 0, review({ due: NOW + MINUTE }))];
+    expect(getNextDueAt(entries)).toBe(NOW + MINUTE);
+    expect(getNextDueAt([card("new", 0)])).toBeNull();
+  });
+});
+
+describe("formatInterval", () => {
+  it("uses the largest sensible unit", () => {
+    expect(formatInterval(10 * MINUTE)).toBe("10m");
+    expect(formatInterval(3 * 60 * MINUTE)).toBe("3h");
+    expect(formatInterval(3 * DAY)).toBe("3d");
+    expect(formatInterval(60 * DAY)).toBe("2mo");
+    expect(formatInterval(730 * DAY)).toBe("2.0y");
+  });
+});
@@ -0,0 +1,173 @@
+import { DictionaryEntry, ReviewGrade, ReviewState } from "../types";
+
+// --- Spaced Repetition Scheduler ---
+// An SM-2 variant in the style of Anki. Everything here is pure: pass `now`
+// in explicitly so schedules can be reproduced and tuned outside the UI.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const LEARNED_REPETITIONS = 2; // Passed twice in a row, so past the first step
+export const MATURE_INTERVAL_DAYS = 21; // Anki's threshold for a well-known card
+
+export interface SchedulerConfig {
+  initialEase: number;
+  minEase: number;
+  maxEase: number;
+  relearnDelayMinutes: number; // When an "again" card comes back
+  graduatingIntervalDays: number; // First "good" on a new card
+  secondIntervalDays: number; // Second consecutive "good"
+  easyIntervalDays: number; // First "easy" on a new card
+  hardMultiplier: number;
+  easyBonus: number;
+  lapseIntervalMultiplier: number; // Kept fraction of the interval after a lapse
+  maxIntervalDays: number;
+  newCardsPerSession: number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  initialEase: 2.5,
+  minEase: 1.3,
+  maxEase: 3.5,
+  relearnDelayMinutes: 10,
+  graduatingIntervalDays: 1,
+  secondIntervalDays: 3,
+  easyIntervalDays: 4,
+  hardMultiplier: 1.2,
+  easyBonus: 1.3,
+  lapseIntervalMultiplier: 0,
+  maxIntervalDays: 365,
+  newCardsPerSession: 20,
+};
+
+export const createReviewState = (
+  now: number,
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): ReviewState => ({
+  ease: config.initialEase,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+});
+
+// Local midnight, so "today" follows the learner's clock rather than UTC
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const scheduleReview = (
+  previous: ReviewState | undefined,
+  grade: ReviewGrade,
+  now: number,
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): ReviewState => {
+  const state = previous || createReviewState(now, config);
+  const isNew = state.repetitions === 0;
+
+  let { ease, interval, repetitions, lapses } = state;
+
+  switch (grade) {
+    case "again":
+      ease -= 0.2;
+      lapses += isNew ? 0 : 1;
+      repetitions = 0;
+      interval = interval * config.lapseIntervalMultiplier;
+      break;
+    case "hard":
+      ease -= 0.15;
+      interval = isNew ? config.graduatingIntervalDays : Math.max(interval + 1, interval * config.hardMultiplier);
+      repetitions += 1;
+      break;
+    case "good":
+      if (repetitions === 0) interval = config.graduatingIntervalDays;
+      else if (repetitions === 1) interval = Math.max(interval + 1, config.secondIntervalDays);
+      else interval = Math.max(interval + 1, interval * ease);
+      repetitions += 1;
+      break;
+    case "easy":
+      ease += 0.15;
+      interval = isNew
+        ? config.easyIntervalDays
+        : Math.max(interval + 1, interval * ease * config.easyBonus);
+      repetitions += 1;
+      break;
+  }
+
+  ease = clamp(ease, config.minEase, config.maxEase);
+  interval = Math.min(Math.round(interval), config.maxIntervalDays);
+
+  // Failed cards are relearned within the session; everything else waits out its interval
+  const due = grade === "again"
+    ? now + config.relearnDelayMinutes * MINUTE
+    : now + interval * DAY;
+
+  return { ease, interval, repetitions, lapses, due, lastReviewed: now, introducedAt: previous ? previous.introducedAt : now };
+};
+
+export const isLearned = (review: ReviewState | undefined): boolean =>
+  !!review && review.repetitions >= LEARNED_REPETITIONS;
+
+export const isMature = (review: ReviewState | undefined): boolean =>
+  isLearned(review) && review!.interval >= MATURE_INTERVAL_DAYS;
+
+export const isDue = (entry: DictionaryEntry, now: number): boolean =>
+  !entry.review || entry.review.due <= now;
+
+// How overdue a card is relative to its interval. A card one day late on a
+// one-day interval is more urgent than one a day late on a month interval.
+const overdueRatio = (review: ReviewState, now: number) =>
+  (now - review.due) / Math.max(review.interval * DAY, MINUTE);
+
+// Due cards in review order: cards in relearning first, then overdue reviews
+// by urgency, then new cards (oldest saved first) up to the daily limit,
+// less any already introduced today.
+export const getDueCards = (
+  entries: DictionaryEntry[],
+  now: number,
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): DictionaryEntry[] => {
+  const today = startOfDay(now);
+  const introducedToday = entries.filter(e => e.review?.introducedAt !== undefined && e.review.introducedAt >= today).length;
+  const reviews = entries.filter(e => e.review && e.review.due <= now);
+  const newCards = entries
+    .filter(e => !e.review)
+    .sort((a, b) => a.savedAt - b.savedAt)
+    .slice(0, Math.max(0, config.newCardsPerSession - introducedToday));
+
+  reviews.sort((a, b) => {
+    const aRelearning = a.review!.repetitions === 0 ? 1 : 0;
+    const bRelearning = b.review!.repetitions === 0 ? 1 : 0;
+    if (aRelearning !== bRelearning) return bRelearning - aRelearning;
+    return overdueRatio(b.review!, now) - overdueRatio(a.review!, now);
+  });
+
+  return [...reviews, ...newCards];
+};
+
+export const getNextDueAt = (entries: DictionaryEntry[]): number | null => {
+  const dues = entries.filter(e => e.review).map(e => e.review!.due);
+  return dues.length > 0 ? Math.min(...dues) : null;
+};
+
+// Human readable interval for the grading buttons, e.g. "10m", "3d", "2mo"
+export const formatInterval = (ms: number): string => {
+  if (ms < 60 * MINUTE) return `${Math.max(1, Math.round(ms / MINUTE))}m`;
+  if (ms < DAY) return `${Math.round(ms / (60 * MINUTE))}h`;
+  if (ms < 30 * DAY) return `${Math.round(ms / DAY)}d`;
+  if (ms < 365 * DAY) return `${Math.round(ms / (30 * DAY))}mo`;
+  return `${(ms / (365 * DAY)).toFixed(1)}y`;
+};
+
+export const previewIntervals = (
+  review: ReviewState | undefined,
+  now: number,
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): Record<ReviewGrade, string> => {
+  const grades: ReviewGrade[] = ["again", "hard", "good", "easy"];
+  return Object.fromEntries(
+    grades.map(grade => [grade, formatInterval(scheduleReview(review, grade, now, config).due - now)])
+  ) as Record<ReviewGrade, string>;
+};
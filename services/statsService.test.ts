@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { ActivityEvent, ActivityKind, ReviewGrade } from "../types";
+import { mockEntry } from "./providers/mockEntries";
+import { scheduleReview } from "./scheduler";
+import { getActivityCalendar, getRetention, getReviewForecast, getStreaks, getWordCounts } from "./statsService";
+
+const NOW = new Date(2026, 2, 10, 12, 0).getTime(); // Local noon on a Tuesday
+
+// Local noon `days` days before NOW, safe across daylight-saving changes
+const daysAgo = (days: number, hour = 12) => new Date(2026, 2, 10 - days, hour, 0).getTime();
+
+const event = (kind: ActivityKind, at: number, details: Partial<ActivityEvent> = {}): ActivityEvent =>
+  ({ kind, at, nativeLang: "en", targetLang: "es", term: "gato", ...details });
+
+const review = (at: number, grade: ReviewGrade, wasLearned = true) => event("review", at, { grade, wasLearned });
+
+describe("getStreaks", () => {
+  it("counts consecutive days with any activity", () => {
+    const events = [event("lookup", daysAgo(2)), event("save", daysAgo(1, 23)), event("quiz", daysAgo(0, 0))];
+    expect(getStreaks(events, NOW)).toEqual({ current: 3, longest: 3 });
+  });
+
+  it("keeps the current streak until today is over", () => {
+    expect(getStreaks([event("lookup", daysAgo(2)), event("lookup", daysAgo(1))], NOW)).toEqual({ current: 2, longest: 2 });
+  });
+
+  it("ends the current streak after a day without activity", () => {
+    const events = [daysAgo(9), daysAgo(8), daysAgo(7), daysAgo(6), daysAgo(2)].map(at => event("lookup", at));
+    expect(getStreaks(events, NOW)).toEqual({ current: 0, longest: 4 });
+  });
+
+  it("counts several events on one day once", () => {
+    const events = [event("lookup", daysAgo(0, 8)), event("save", daysAgo(0, 9)), event("review", daysAgo(0, 10))];
+    expect(getStreaks(events, NOW)).toEqual({ current: 1, longest: 1 });
+  });
+
+  it("is zero without any activity", () => {
+    expect(getStreaks([], NOW)).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe("getWordCounts", () => {
+  it("counts a word as learned once it has passed twice in a row", () => {
+    const once = scheduleReview(undefined, "good", daysAgo(3));
+    const twice = scheduleReview(once, "good", daysAgo(2));
+    const entries = [
+      mockEntry("nuevo"),
+      mockEntry("visto", { review: once }),
+      mockEntry("aprendido", { review: twice }),
+      mockEntry("maduro", { review: { ...twice, repetitions: 5, interval: 30 } }),
+    ];
+    expect(getWordCounts(entries)).toEqual({ total: 4, learned: 2, mature: 1 });
+  });
+});
+
+describe("getRetention", () => {
+  it("is the share of learned-card reviews passed in the last 30 days", () => {
+    const events = [
+      review(daysAgo(1), "good"),
+      review(daysAgo(2), "hard"),
+      review(daysAgo(3), "again"),
+      review(daysAgo(4), "easy"),
+      review(daysAgo(5), "again", false), // Still learning
+      review(daysAgo(40), "again"), // Too long ago
+      event("quiz", daysAgo(1), { correct: false }),
+    ];
+    expect(getRetention(events, NOW)).toEqual({ rate: 0.75, reviews: 4 });
+  });
+
+  it("is null with nothing to measure", () => {
+    expect(getRetention([review(daysAgo(1), "good", false)], NOW)).toEqual({ rate: null, reviews: 0 });
+  });
+});
+
+describe("getReviewForecast", () => {
+  it("counts overdue cards toward today and leaves out unstudied ones", () => {
+    const due = (at: number) => ({ ease: 2.5, interval: 1, repetitions: 1, lapses: 0, due: at });
+    const entries = [
+      mockEntry("a", { review: due(daysAgo(3)) }),
+      mockEntry("b", { review: due(daysAgo(0, 18)) }),
+      mockEntry("c", { review: due(daysAgo(-2)) }),
+      mockEntry("d", { review: due(daysAgo(-10)) }),
+      mockEntry("e"),
+    ];
+    expect(getReviewForecast(entries, NOW).map(day => day.count)).toEqual([2, 0, 1, 0, 0, 0, 0]);
+  });
+});
+
+describe("getActivityCalendar", () => {
+  it("fills whole weeks from a Sunday through today", () => {
+    const calendar = getActivityCalendar([event("lookup", daysAgo(0)), event("save", daysAgo(0))], NOW, 2);
+    expect(new Date(calendar[0].day).getDay()).toBe(0);
+    expect(calendar).toHaveLength(7 + 3);
+    expect(calendar[calendar.length - 1]).toEqual({ day: daysAgo(0, 0), count: 2 });
+  });
+});
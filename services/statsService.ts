@@ -0,0 +1,118 @@
+import { ActivityEvent, DictionaryEntry } from "../types";
+import { downloadFile } from "./notebookIO";
+import { isLearned, isMature, startOfDay } from "./scheduler";
+
+// --- Progress Stats ---
+// Everything here is pure apart from the export: pass `now` in explicitly,
+// as the scheduler does. Days are local calendar days, so a streak follows
+// the learner's clock rather than UTC.
+
+const RETENTION_WINDOW_DAYS = 30;
+
+export interface DailyCount {
+  day: number; // Local midnight
+  count: number;
+}
+
+// `offset` whole calendar days from `day`, safe across daylight-saving changes
+const addDays = (day: number, offset: number): number => {
+  const date = new Date(day);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset).getTime();
+};
+
+const countByDay = (events: ActivityEvent[]): Map<number, number> => {
+  const counts = new Map<number, number>();
+  events.forEach(event => {
+    const day = startOfDay(event.at);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return counts;
+};
+
+// A streak is consecutive days with any activity. Today without activity
+// yet doesn't break the current streak: it's only lost once the day ends.
+export const getStreaks = (events: ActivityEvent[], now: number): { current: number; longest: number } => {
+  const counts = countByDay(events);
+  const days = Array.from<number>(counts.keys()).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && addDays(days[i - 1], 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  let current = 0;
+  let day = startOfDay(now);
+  if (!counts.has(day)) day = addDays(day, -1);
+  while (counts.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+  return { current, longest };
+};
+
+// Learned and mature use the scheduler's thresholds: passed twice in a row,
+// and scheduled three weeks or more out
+export const getWordCounts = (entries: DictionaryEntry[]): { total: number; learned: number; mature: number } => ({
+  total: entries.length,
+  learned: entries.filter(e => isLearned(e.review)).length,
+  mature: entries.filter(e => isMature(e.review)).length,
+});
+
+// Share of reviews of already-learned cards that weren't failed, over the
+// last 30 days. New cards are left out: forgetting a word seen once says
+// little. Null when there's nothing to measure yet.
+export const getRetention = (events: ActivityEvent[], now: number): { rate: number | null; reviews: number } => {
+  const since = addDays(startOfDay(now), -RETENTION_WINDOW_DAYS);
+  const reviews = events.filter(e => e.kind === "review" && e.wasLearned && e.at >= since);
+  const passed = reviews.filter(e => e.grade !== "again").length;
+  return { rate: reviews.length > 0 ? passed / reviews.length : null, reviews: reviews.length };
+};
+
+export const getQuizAccuracy = (events: ActivityEvent[], now: number): { rate: number | null; answers: number } => {
+  const since = addDays(startOfDay(now), -RETENTION_WINDOW_DAYS);
+  const answers = events.filter(e => e.kind === "quiz" && e.at >= since);
+  const correct = answers.filter(e => e.correct).length;
+  return { rate: answers.length > 0 ? correct / answers.length : null, answers: answers.length };
+};
+
+// Reviews falling due on each of the next `days` days. Overdue cards count
+// toward today; cards never studied aren't reviews yet and are left out.
+export const getReviewForecast = (entries: DictionaryEntry[], now: number, days = 7): DailyCount[] => {
+  const today = startOfDay(now);
+  const forecast = Array.from({ length: days }, (_, i) => ({ day: addDays(today, i), count: 0 }));
+  entries.forEach(entry => {
+    if (!entry.review) return;
+    const day = Math.max(startOfDay(entry.review.due), today);
+    const slot = forecast.find(f => f.day === day);
+    if (slot) slot.count++;
+  });
+  return forecast;
+};
+
+// Activity per day for the calendar heatmap, from the Sunday `weeks` weeks
+// back through today, so the days fill whole columns of seven
+export const getActivityCalendar = (events: ActivityEvent[], now: number, weeks = 12): DailyCount[] => {
+  const today = startOfDay(now);
+  const start = addDays(today, -(weeks - 1) * 7 - new Date(today).getDay());
+  const counts = countByDay(events);
+  const calendar: DailyCount[] = [];
+  for (let day = start; day <= today; day = addDays(day, 1)) {
+    calendar.push({ day, count: counts.get(day) || 0 });
+  }
+  return calendar;
+};
+
+// --- Export ---
+
+// The whole log, every language pair, with readable timestamps
+export const exportActivityLog = (events: ActivityEvent[]) => {
+  const log = {
+    format: "lingopop-activity",
+    version: 1,
+    exportedAt: Date.now(),
+    events: events.map(({ id: _id, ...event }) => ({ ...event, at: new Date(event.at).toISOString() })),
+  };
+  downloadFile(JSON.stringify(log, null, 2), "lingopop-activity.json", "application/json");
+};
@@ -0,0 +1,457 @@
+import { ActivityEvent, ChatMessage, DictionaryEntry, LearnerProfile, SavedStory } from "../types";
+import type { DailyWord } from "./wordOfTheDay";
+
+const DB_NAME = "lingopop";
+
+// --- Schema & Migrations ---
+// Each migration upgrades the database from version `index` to `index + 1`.
+// Never edit a shipped migration: append a new one instead, so existing
+// notebooks are walked forward step by step on their next open.
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// A record as a migration finds it: written by any earlier version, so
+// nothing about its fields can be assumed until checked
+type StoredRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const MIGRATIONS: Migration[] = [
+  // v1: initial schema
+  (db) => {
+    db.createObjectStore("entries", { keyPath: "id" });
+    db.createObjectStore("images"); // Blob, keyed by entry id
+    db.createObjectStore("settings"); // key/value pairs
+    db.createObjectStore("stories", { keyPath: "id" });
+  },
+  // v2: lookup cache
+  (db) => {
+    db.createObjectStore("lookups", { keyPath: "key" });
+  },
+  // v3: synthesized speech cache
+  (db) => {
+    db.createObjectStore("audio", { keyPath: "key" }).createIndex("storedAt", "storedAt");
+  },
+  // v4: entries record their language pair and tags. Existing entries were
+  // all made for the single pair the user had chosen, so backfill that.
+  (_db, tx) => {
+    const settings = tx.objectStore("settings");
+    const nativeRequest = settings.get("nativeLangCode");
+    const targetRequest = settings.get("targetLangCode");
+    targetRequest.onsuccess = () => {
+      const nativeLang = nativeRequest.result || "en";
+      const targetLang = targetRequest.result || "es";
+      migrateRecords(tx, "entries", (record) => ({
+        nativeLang,
+        targetLang,
+        ...record,
+        tags: record.tags || [],
+      }));
+      // Cache keys already encode the pair: "native|target|term"
+      migrateRecords(tx, "lookups", (record) => {
+        const [keyNative, keyTarget] = String(record.key).split("|");
+        const entry = isRecord(record.entry) ? record.entry : {};
+        return { ...record, entry: { nativeLang: keyNative, targetLang: keyTarget, tags: [], ...entry } };
+      });
+    };
+  },
+  // v5: tutor chat threads, keyed like the lookup cache
+  (db) => {
+    db.createObjectStore("chats", { keyPath: "key" });
+  },
+  // v6: stories are stored sentence by sentence. Older stories only have
+  // `content`, so split it up; they get no translations or questions.
+  (_db, tx) => {
+    migrateRecords(tx, "stories", ({ content, ...record }) => ({
+      ...record,
+      sentences: record.sentences || (typeof content === "string" ? content : "")
+        .match(/[^.!?。！？]+[.!?。！？]*/g)
+        ?.map((target: string) => ({ target: target.trim(), native: "", words: [] }))
+        .filter((sentence: { target: string }) => sentence.target) || [],
+      questions: record.questions || [],
+    }));
+  },
+  // v7: lookups searched for while offline, keyed like the lookup cache
+  (db) => {
+    db.createObjectStore("pending", { keyPath: "key" });
+  },
+  // v8: activity log for the progress dashboard
+  (db) => {
+    db.createObjectStore("events", { keyPath: "id", autoIncrement: true }).createIndex("at", "at");
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Rewrites every record in a store inside an upgrade transaction.
+// Migrations use this to backfill new fields on existing records.
+const migrateRecords = (
+  tx: IDBTransaction,
+  storeName: string,
+  migrate: (record: StoredRecord) => StoredRecord
+) => {
+  const request = tx.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(migrate(cursor.value));
+    cursor.continue();
+  };
+};
+
+// --- IndexedDB Helpers ---
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](db, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// --- Image Helpers ---
+// Images are stored as Blobs rather than base64 data URLs: a data URL is ~33%
+// larger and is duplicated into every structured clone of the entry.
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(",");
+  const mimeType = header.match(/data:(.*?);base64/)?.[1] || "image/png";
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Object URLs handed out for stored images, so they can be revoked on delete
+const objectUrls = new Map<string, string>();
+
+const imageUrlFor = (id: string, blob: Blob): string => {
+  const existing = objectUrls.get(id);
+  if (existing) URL.revokeObjectURL(existing);
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(id, url);
+  return url;
+};
+
+// An entry as saved by any version: these fields were added along the way
+type StoredEntry = Omit<DictionaryEntry, "examples" | "tags" | "definition" | "usageGuide">
+  & Partial<Pick<DictionaryEntry, "examples" | "tags" | "definition" | "usageGuide">>;
+
+// Fills defaults for fields older records may lack, so the UI never has to
+// guard against a partially populated entry.
+const hydrateEntry = (record: StoredEntry): DictionaryEntry => ({
+  ...record,
+  examples: record.examples || [],
+  tags: record.tags || [],
+  definition: record.definition || "",
+  usageGuide: record.usageGuide || "",
+});
+
+// --- Notebook ---
+
+export const loadNotebook = async (): Promise<DictionaryEntry[]> => {
+  const db = await openDB();
+  const tx = db.transaction(["entries", "images"], "readonly");
+  const [records, imageKeys, images] = await Promise.all([
+    promisifyRequest(tx.objectStore("entries").getAll()),
+    promisifyRequest(tx.objectStore("images").getAllKeys()),
+    promisifyRequest(tx.objectStore("images").getAll()),
+  ]);
+
+  const imagesByKey = new Map<string, Blob>();
+  imageKeys.forEach((key, i) => imagesByKey.set(String(key), images[i]));
+
+  return records
+    .map((record) => {
+      const entry = hydrateEntry(record);
+      const blob = imagesByKey.get(entry.id);
+      const sourceBlob = imagesByKey.get(sourceImageKey(entry.id));
+      return {
+        ...entry,
+        ...(blob && { imageUrl: imageUrlFor(entry.id, blob) }),
+        ...(sourceBlob && { sourceImage: imageUrlFor(sourceImageKey(entry.id), sourceBlob) }),
+      };
+    })
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// The photo a word was looked up from shares the images store with its
+// illustration, under its own key
+const sourceImageKey = (id: string) => `${id}:source`;
+
+// Returns the bytes to store for an image, or null if the image is already
+// stored under this key (or there is none).
+const resolveImageBlob = async (key: string, imageUrl?: string): Promise<Blob | null> => {
+  if (!imageUrl) return null;
+  if (imageUrl.startsWith("data:")) return dataUrlToBlob(imageUrl);
+  // A blob: URL handed out for another record (e.g. the lookup cache)
+  if (imageUrl.startsWith("blob:") && objectUrls.get(key) !== imageUrl) {
+    return (await fetch(imageUrl)).blob();
+  }
+  return null;
+};
+
+// Resolves to the entry as stored: images written by this save are swapped
+// for object URLs of the stored copies. Keep that in state, so later saves
+// of the same entry recognise the images and skip rewriting them.
+export const saveEntry = async (entry: DictionaryEntry): Promise<DictionaryEntry> => {
+  const { imageUrl, sourceImage, ...record } = entry;
+  const imageBlob = await resolveImageBlob(entry.id, imageUrl);
+  const sourceBlob = await resolveImageBlob(sourceImageKey(entry.id), sourceImage);
+
+  const db = await openDB();
+  const tx = db.transaction(["entries", "images"], "readwrite");
+  tx.objectStore("entries").put(record);
+  if (imageBlob) {
+    tx.objectStore("images").put(imageBlob, entry.id);
+  }
+  if (sourceBlob) {
+    tx.objectStore("images").put(sourceBlob, sourceImageKey(entry.id));
+  } else if (!sourceImage) {
+    tx.objectStore("images").delete(sourceImageKey(entry.id)); // Photo was detached
+  }
+  await promisifyTransaction(tx);
+
+  return {
+    ...entry,
+    ...(imageBlob && { imageUrl: imageUrlFor(entry.id, imageBlob) }),
+    ...(sourceBlob && { sourceImage: imageUrlFor(sourceImageKey(entry.id), sourceBlob) }),
+  };
+};
+
+export const deleteEntry = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(["entries", "images"], "readwrite");
+  tx.objectStore("entries").delete(id);
+  tx.objectStore("images").delete(id);
+  tx.objectStore("images").delete(sourceImageKey(id));
+  await promisifyTransaction(tx);
+
+  [id, sourceImageKey(id)].forEach(key => {
+    const url = objectUrls.get(key);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(key);
+    }
+  });
+};
+
+// --- Settings ---
+
+export interface StoredSettings {
+  nativeLangCode?: string;
+  targetLangCode?: string;
+  learnerProfile?: Partial<LearnerProfile>;
+  remindersEnabled?: boolean;
+  dailyWord?: DailyWord;
+}
+
+export const loadSettings = async (): Promise<StoredSettings> => {
+  const db = await openDB();
+  const store = db.transaction("settings", "readonly").objectStore("settings");
+  const [keys, values] = await Promise.all([
+    promisifyRequest(store.getAllKeys()),
+    promisifyRequest(store.getAll()),
+  ]);
+  const settings: Record<string, unknown> = {};
+  keys.forEach((key, i) => { settings[String(key)] = values[i]; });
+  return settings as StoredSettings;
+};
+
+export const saveSettings = async (settings: Partial<StoredSettings>): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("settings", "readwrite");
+  const store = tx.objectStore("settings");
+  Object.entries(settings).forEach(([key, value]) => store.put(value, key));
+  await promisifyTransaction(tx);
+};
+
+// --- Stories ---
+
+export const loadStories = async (): Promise<SavedStory[]> => {
+  const db = await openDB();
+  const store = db.transaction("stories", "readonly").objectStore("stories");
+  const stories = await promisifyRequest(store.getAll());
+  return stories.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveStory = async (story: SavedStory): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("stories", "readwrite");
+  tx.objectStore("stories").put(story);
+  await promisifyTransaction(tx);
+};
+
+// --- Lookup Cache ---
+// Raw records only; eviction and expiry live in lookupCache.ts.
+
+export interface CachedLookupRecord {
+  key: string;
+  entry: Omit<DictionaryEntry, "imageUrl">;
+  image?: Blob;
+  storedAt: number;
+  lastAccessed: number;
+}
+
+export const loadCachedLookups = async (): Promise<CachedLookupRecord[]> => {
+  const db = await openDB();
+  const store = db.transaction("lookups", "readonly").objectStore("lookups");
+  return promisifyRequest(store.getAll());
+};
+
+export const putCachedLookup = async (record: CachedLookupRecord): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("lookups", "readwrite");
+  tx.objectStore("lookups").put(record);
+  await promisifyTransaction(tx);
+};
+
+export const deleteCachedLookups = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction("lookups", "readwrite");
+  const store = tx.objectStore("lookups");
+  keys.forEach(key => store.delete(key));
+  await promisifyTransaction(tx);
+};
+
+// --- Audio Cache ---
+
+export interface StoredAudio {
+  key: string;
+  pcm: ArrayBuffer; // 16-bit mono PCM at 24kHz
+  storedAt: number;
+}
+
+export const getStoredAudio = async (key: string): Promise<StoredAudio | undefined> => {
+  const db = await openDB();
+  const store = db.transaction("audio", "readonly").objectStore("audio");
+  return promisifyRequest(store.get(key));
+};
+
+export const putStoredAudio = async (audio: StoredAudio): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("audio", "readwrite");
+  tx.objectStore("audio").put(audio);
+  await promisifyTransaction(tx);
+};
+
+// Deletes the oldest clips beyond `maxClips`
+export const pruneStoredAudio = async (maxClips: number): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("audio", "readwrite");
+  const store = tx.objectStore("audio");
+  const count = await promisifyRequest(store.count());
+  let excess = count - maxClips;
+  if (excess > 0) {
+    const request = store.index("storedAt").openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  }
+  await promisifyTransaction(tx);
+};
+
+// --- Chat Threads ---
+
+export interface ChatThread {
+  key: string; // "native|target|term", as for cached lookups
+  messages: ChatMessage[];
+  updatedAt: number;
+}
+
+export const getChatThread = async (key: string): Promise<ChatThread | undefined> => {
+  const db = await openDB();
+  const store = db.transaction("chats", "readonly").objectStore("chats");
+  return promisifyRequest(store.get(key));
+};
+
+export const putChatThread = async (thread: ChatThread): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("chats", "readwrite");
+  tx.objectStore("chats").put(thread);
+  await promisifyTransaction(tx);
+};
+
+// --- Pending Lookups ---
+
+export type PendingLookupStatus = "queued" | "ready" | "failed";
+
+export interface PendingLookup {
+  key: string; // "native|target|term", as for cached lookups
+  term: string;
+  nativeLang: string;
+  targetLang: string;
+  queuedAt: number;
+  status: PendingLookupStatus; // "ready" once the result is in the lookup cache
+}
+
+export const loadPendingLookups = async (): Promise<PendingLookup[]> => {
+  const db = await openDB();
+  const store = db.transaction("pending", "readonly").objectStore("pending");
+  const pending = await promisifyRequest(store.getAll());
+  return pending.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const putPendingLookup = async (pending: PendingLookup): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("pending", "readwrite");
+  tx.objectStore("pending").put(pending);
+  await promisifyTransaction(tx);
+};
+
+export const deletePendingLookup = async (key: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction("pending", "readwrite");
+  tx.objectStore("pending").delete(key);
+  await promisifyTransaction(tx);
+};
+
+// --- Activity Log ---
+
+export const loadEvents = async (): Promise<ActivityEvent[]> => {
+  const db = await openDB();
+  const index = db.transaction("events", "readonly").objectStore("events").index("at");
+  return promisifyRequest(index.getAll()); // Oldest first
+};
+
+export const logEvent = async (event: ActivityEvent): Promise<ActivityEvent> => {
+  const db = await openDB();
+  const tx = db.transaction("events", "readwrite");
+  const id = await promisifyRequest(tx.objectStore("events").add(event));
+  await promisifyTransaction(tx);
+  return { ...event, id: Number(id) };
+};
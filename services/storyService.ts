@@ -0,0 +1,58 @@
+import { DictionaryEntry, StoryLength, StoryOptions, StorySentence } from "../types";
+
+// --- Story Options ---
+
+export const STORY_LENGTHS: Record<StoryLength, { label: string; sentences: number; words: number }> = {
+  short: { label: "Short", sentences: 6, words: 5 },
+  medium: { label: "Medium", sentences: 12, words: 8 },
+  long: { label: "Long", sentences: 20, words: 12 },
+};
+
+export const STORY_GENRES = ["Everyday life", "Adventure", "Mystery", "Comedy", "Fairy tale", "Science fiction", "Romance"];
+
+export const DEFAULT_STORY_OPTIONS: StoryOptions = { level: "A2", length: "short", genre: "Everyday life" };
+
+// Words due for review (or never reviewed) come first, so a story doubles as
+// practice; the newest words break ties. Longer stories fit more words.
+export const pickStoryWords = (entries: DictionaryEntry[], length: StoryLength, now: number): DictionaryEntry[] => {
+  const isDue = (entry: DictionaryEntry) => !entry.review || entry.review.due <= now;
+  return [...entries]
+    .sort((a, b) => Number(isDue(b)) - Number(isDue(a)) || b.savedAt - a.savedAt)
+    .slice(0, STORY_LENGTHS[length].words);
+};
+
+// --- Story Text ---
+
+export interface SentencePart {
+  text: string;
+  term?: string; // Set on a notebook word
+}
+
+// Splits a sentence around the notebook words the model says it used. Forms
+// that can't be found verbatim, or overlap an earlier match, stay plain text.
+export const markStoryWords = (sentence: StorySentence): SentencePart[] => {
+  const lower = sentence.target.toLowerCase();
+  const matches: { start: number; end: number; term: string }[] = [];
+
+  sentence.words.forEach(({ form, term }) => {
+    let start = lower.indexOf(form.toLowerCase());
+    while (start !== -1) {
+      const end = start + form.length;
+      if (!matches.some(m => start < m.end && end > m.start)) {
+        matches.push({ start, end, term });
+        return;
+      }
+      start = lower.indexOf(form.toLowerCase(), start + 1);
+    }
+  });
+
+  const parts: SentencePart[] = [];
+  let last = 0;
+  matches.sort((a, b) => a.start - b.start).forEach(({ start, end, term }) => {
+    if (start > last) parts.push({ text: sentence.target.slice(last, start) });
+    parts.push({ text: sentence.target.slice(start, end), term });
+    last = end;
+  });
+  if (last < sentence.target.length) parts.push({ text: sentence.target.slice(last) });
+  return parts;
+};
@@ -0,0 +1,42 @@
+// --- Word Segmentation ---
+// Splits text into tappable words. Intl.Segmenter knows where words end in
+// scripts written without spaces (Chinese, Japanese, Thai); older browsers
+// fall back to splitting on spaces and punctuation.
+
+export interface TextSegment {
+  text: string;
+  isWord: boolean; // False for spaces and punctuation between words
+}
+
+const FALLBACK_WORD = /[\p{L}\p{M}\p{N}'’-]+/gu;
+
+export const segmentWords = (text: string, langCode: string): TextSegment[] => {
+  if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+    const segmenter = new Intl.Segmenter(langCode, { granularity: "word" });
+    return Array.from(segmenter.segment(text), ({ segment, isWordLike }) => ({ text: segment, isWord: !!isWordLike }));
+  }
+
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(FALLBACK_WORD)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index), isWord: false });
+    segments.push({ text: match[0], isWord: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), isWord: false });
+  return segments;
+};
+
+// --- Sentence Detection ---
+
+const SENTENCE_END = /[.!?。！？؟।]$/u;
+const MIN_SENTENCE_WORDS = 4;
+
+// Decides whether a search gets a sentence breakdown instead of a dictionary
+// entry. Short idioms ("tomar el pelo") stay lookups unless they end like a
+// sentence; anything longer reads as a sentence.
+export const looksLikeSentence = (text: string, langCode: string): boolean => {
+  const trimmed = text.trim();
+  const words = segmentWords(trimmed, langCode).filter(segment => segment.isWord).length;
+  return words >= MIN_SENTENCE_WORDS || (words >= 2 && SENTENCE_END.test(trimmed));
+};
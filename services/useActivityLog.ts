@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { ActivityEvent, ActivityKind, DictionaryEntry } from "../types";
+import { loadEvents, logEvent } from "./storage";
+
+// --- Activity Log ---
+// The stored log as React state, oldest first. Events recorded before the
+// stored ones finish loading are kept after them.
+
+export const useActivityLog = () => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+
+  useEffect(() => {
+    loadEvents()
+      .then(log => setEvents(prev => [...log, ...prev.filter(e => !log.some(stored => stored.id === e.id))]))
+      .catch(error => console.error("Failed to load activity:", error));
+  }, []);
+
+  const recordEvent = (
+    kind: ActivityKind,
+    entry: Pick<DictionaryEntry, "term" | "nativeLang" | "targetLang">,
+    details: Partial<ActivityEvent> = {}
+  ) => {
+    logEvent({ kind, at: Date.now(), term: entry.term, nativeLang: entry.nativeLang, targetLang: entry.targetLang, ...details })
+      .then(logged => setEvents(prev => [...prev, logged]))
+      .catch(error => console.error("Failed to log activity:", error));
+  };
+
+  return { events, recordEvent };
+};
@@ -0,0 +1,82 @@
+import { useRef, useState } from "react";
+import { ChatMessage, DictionaryEntry, Language, LearnerProfile } from "../types";
+import { ChatSession } from "./aiProvider";
+import { createChatSession } from "./geminiService";
+import { appendExchange, loadThread, saveThread } from "./chatThreads";
+import { describeLearner } from "./learnerProfile";
+import { describeError, toAIError } from "./errors";
+
+// --- Tutor Chat ---
+// The conversation about the open word. Starting it resumes the word's
+// stored thread; replies are typed out as they stream in and saved to the
+// thread they were asked in, even if another word has been opened since.
+
+export const useChatThread = () => {
+  const [chatSession, setChatSession] = useState<ChatSession | null>(null);
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [isChatLoading, setIsChatLoading] = useState(false); // Waiting for the first chunk
+  const [isChatReplying, setIsChatReplying] = useState(false); // Until the reply is complete
+  const threadRef = useRef<{ entry: DictionaryEntry; messages: ChatMessage[] } | null>(null);
+
+  // The greeting is only shown, never sent, so the stored thread starts with
+  // the user
+  const startChat = async (entry: DictionaryEntry, nativeLanguage: Language, targetLanguage: Language, profile: LearnerProfile) => {
+    const thread = { entry, messages: [] as ChatMessage[] };
+    threadRef.current = thread;
+    setChatSession(null);
+    try {
+      thread.messages = await loadThread(entry);
+    } catch (error) {
+      console.error("Failed to load chat thread:", error);
+    }
+    if (threadRef.current !== thread) return; // Another word was opened meanwhile
+
+    const session = createChatSession(`
+      You are a helpful language tutor assistant.
+      The user is currently looking at the word: "${entry.term}".
+      The user speaks ${nativeLanguage.name} and is learning ${targetLanguage.name}.
+      ${describeLearner(profile, targetLanguage)}
+      Answer questions about this specific word, its usage, or grammar.
+    `, thread.messages);
+    setChatSession(session);
+    setChatHistory([{ role: "model", text: `Hi! Ask me anything about "${entry.term}"! 👋` }, ...thread.messages]);
+  };
+
+  const sendChatMessage = async (userMsg: string) => {
+    if (!userMsg.trim() || !chatSession || isChatReplying) return;
+
+    const thread = threadRef.current;
+    setChatHistory(prev => [...prev, { role: "user", text: userMsg }]);
+    setIsChatLoading(true);
+    setIsChatReplying(true);
+
+    // The reply is typed out into a model message appended on the first chunk
+    let reply = "";
+    const showReply = (text: string, isFirst: boolean) => setChatHistory(prev =>
+      [...(isFirst ? prev : prev.slice(0, -1)), { role: "model", text }]
+    );
+
+    try {
+      for await (const chunk of chatSession.sendMessageStream(userMsg)) {
+        showReply(reply + chunk, reply === "");
+        reply += chunk;
+        setIsChatLoading(false);
+      }
+      if (!reply) {
+        setChatHistory(prev => [...prev, { role: "model", text: "I didn't catch that.", failed: true }]);
+      } else if (thread) {
+        thread.messages = appendExchange(thread.messages, userMsg, reply);
+        saveThread(thread.entry, thread.messages).catch(error => console.error("Failed to save chat:", error));
+      }
+    } catch (error) {
+      console.error(error);
+      const { message } = describeError(toAIError(error));
+      setChatHistory(prev => [...prev, { role: "model", text: `⚠️ ${message}`, failed: true }]);
+    } finally {
+      setIsChatLoading(false);
+      setIsChatReplying(false);
+    }
+  };
+
+  return { chatSession, chatHistory, isChatLoading, isChatReplying, startChat, sendChatMessage };
+};
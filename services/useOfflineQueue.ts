@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from "react";
+import { Language, LearnerProfile } from "../types";
+import { queueLookup, runPendingLookup } from "./lookupQueue";
+import { subscribeToConnectivity } from "./connectivity";
+import { PendingLookup, deletePendingLookup, loadPendingLookups, putPendingLookup } from "./storage";
+
+// --- Offline Lookups ---
+// The queued searches as React state. Loads them on mount and works through
+// them one at a time whenever we're online; a network failure stops the run
+// until connectivity changes again.
+
+export const useOfflineQueue = (isOnline: boolean, profile: LearnerProfile) => {
+  const [pendingLookups, setPendingLookups] = useState<PendingLookup[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [drainTick, setDrainTick] = useState(0); // Bumped to re-check the queue after a run
+  const isDrainingRef = useRef(false);
+
+  useEffect(() => {
+    loadPendingLookups()
+      .then(setPendingLookups)
+      .catch(error => console.error("Failed to load pending lookups:", error))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !isOnline || isDrainingRef.current) return;
+    const queued = pendingLookups.filter(p => p.status === "queued");
+    if (queued.length === 0) return;
+
+    isDrainingRef.current = true;
+    let isStopped = false;
+    (async () => {
+      for (const pending of queued) {
+        try {
+          const settled = await runPendingLookup(pending, profile);
+          setPendingLookups(prev => prev.map(p => p.key === settled.key ? settled : p));
+        } catch (error) {
+          console.warn("Queued lookups paused:", error);
+          isStopped = true;
+          break;
+        }
+      }
+    })().finally(() => {
+      isDrainingRef.current = false;
+      if (!isStopped) setDrainTick(tick => tick + 1); // Pick up anything queued meanwhile
+    });
+  }, [isLoaded, isOnline, pendingLookups, drainTick]);
+
+  // A run stopped by a network error waits for the connection to come back,
+  // even if the browser never reported it as gone
+  useEffect(() => subscribeToConnectivity(() => {
+    if (navigator.onLine) setDrainTick(tick => tick + 1);
+  }), []);
+
+  const queue = async (term: string, nativeLanguage: Language, targetLanguage: Language) => {
+    const pending = await queueLookup(term, nativeLanguage, targetLanguage);
+    setPendingLookups(prev => [...prev.filter(p => p.key !== pending.key), pending]);
+  };
+
+  const retry = (pending: PendingLookup) => {
+    const queued = { ...pending, status: "queued" as const };
+    setPendingLookups(prev => prev.map(p => p.key === queued.key ? queued : p));
+    putPendingLookup(queued).catch(error => console.error("Failed to save pending lookup:", error));
+  };
+
+  const dismiss = (pending: PendingLookup) => {
+    setPendingLookups(prev => prev.filter(p => p.key !== pending.key));
+    deletePendingLookup(pending.key).catch(error => console.error("Failed to remove pending lookup:", error));
+  };
+
+  return { pendingLookups, queue, retry, dismiss };
+};
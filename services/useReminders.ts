@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { DictionaryEntry } from "../types";
+import { getDueCards, getNextDueAt } from "./scheduler";
+import { disableReminders, enableReminders, getReminderPermission, scheduleReminder } from "./reminders";
+import { loadSettings, saveSettings } from "./storage";
+
+// --- Review Reminders ---
+// The reminder setting as React state, kept scheduled for the open language
+// pair, which is what the reminder opens. The count is what the deck will
+// show then: every card due by that time, overdue ones included, plus the
+// day's new cards.
+
+export const useReminders = (notebook: DictionaryEntry[], nativeLangCode: string, targetLangCode: string) => {
+  const [remindersEnabled, setRemindersEnabled] = useState(false);
+
+  useEffect(() => {
+    loadSettings()
+      // Permission can be revoked in the browser while the app is closed
+      .then(settings => setRemindersEnabled(!!settings.remindersEnabled && getReminderPermission() === "granted"))
+      .catch(error => console.error("Failed to load settings:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!remindersEnabled) return;
+    const pairNotebook = notebook.filter(n => n.nativeLang === nativeLangCode && n.targetLang === targetLangCode);
+    const dueAt = getNextDueAt(pairNotebook);
+    const count = dueAt === null ? 0 : getDueCards(pairNotebook, Math.max(dueAt, Date.now())).length;
+    return scheduleReminder(dueAt, count);
+  }, [remindersEnabled, notebook, nativeLangCode, targetLangCode]);
+
+  const toggleReminders = async (enabled: boolean) => {
+    let isOn = false;
+    try {
+      if (enabled) isOn = await enableReminders();
+      else await disableReminders();
+    } catch (error) {
+      console.error("Failed to change reminders:", error);
+      isOn = remindersEnabled;
+    }
+    setRemindersEnabled(isOn);
+    saveSettings({ remindersEnabled: isOn })
+      .catch(error => console.error("Failed to save settings:", error));
+  };
+
+  return { remindersEnabled, toggleReminders };
+};
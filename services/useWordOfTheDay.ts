@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { DictionaryEntry, Language, LearnerProfile } from "../types";
+import { getSuggestedWord, pickNotebookWord } from "./wordOfTheDay";
+
+// --- Word of the Day ---
+// Picked whenever `isShowing` turns on. A suggestion needs the model, so
+// offline learners with an empty notebook just get the search prompt.
+// `resolve` turns the suggested term into an entry the way the app looks
+// words up, so it shares the notebook and cache.
+
+export const useWordOfTheDay = (
+  isShowing: boolean,
+  pairNotebook: DictionaryEntry[],
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  profile: LearnerProfile,
+  isOnline: boolean,
+  resolve: (term: string) => Promise<DictionaryEntry>
+) => {
+  const [wordOfTheDay, setWordOfTheDay] = useState<DictionaryEntry | null>(null);
+
+  useEffect(() => {
+    if (!isShowing) return;
+    const now = Date.now();
+    const saved = pickNotebookWord(pairNotebook, now);
+    if (saved) {
+      setWordOfTheDay(saved);
+      return;
+    }
+    if (!isOnline) return;
+
+    let isCancelled = false;
+    getSuggestedWord(nativeLanguage, targetLanguage, profile, now)
+      .then(term => resolve(term))
+      .then(entry => { if (!isCancelled) setWordOfTheDay(entry); })
+      .catch(error => console.warn("Failed to get a word of the day:", error));
+    return () => { isCancelled = true; };
+  }, [isShowing, nativeLanguage.code, targetLanguage.code, pairNotebook.length, isOnline]);
+
+  return wordOfTheDay;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ParseError } from './errors';
+import { JSON_FIXTURES } from './providers/mockFixtures';
+import { parsePartialJSON, partialLookupData, validateLookupData, validateStoryResult } from './validation';
+
+const mockLookup = (term: string) =>
+  JSON.stringify(JSON_FIXTURES.lookup({ term, nativeLang: 'English', targetLang: 'Spanish' }));
+
+describe('validateLookupData', () => {
+  it("accepts the mock provider's lookups", () => {
+    const data = validateLookupData(mockLookup('gato'));
+    expect(data.definition).toContain('gato');
+    expect(data.examples).toHaveLength(2);
+    expect(data.lemma).toBe('gato');
+  });
+
+  it('trims fields and drops malformed examples', () => {
+    const data = validateLookupData(JSON.stringify({
+      definition: '  cat  ',
+      usageGuide: 'Everyday word.',
+      examples: [{ target: ' El gato duerme. ', native: 'The cat sleeps.' }, { target: 42 }, 'nope'],
+    }));
+    expect(data.definition).toBe('cat');
+    expect(data.examples).toEqual([{ target: 'El gato duerme.', native: 'The cat sleeps.' }]);
+    expect(data.lemma).toBeUndefined();
+  });
+
+  it('rejects responses that are missing required fields', () => {
+    expect(() => validateLookupData(JSON.stringify({ usageGuide: 'x', examples: [{ target: 'a', native: 'b' }] })))
+      .toThrow(ParseError);
+    expect(() => validateLookupData(JSON.stringify({ definition: 'cat', usageGuide: 'x', examples: [] })))
+      .toThrow('no usable "examples"');
+  });
+
+  it('rejects text that is not a JSON object, as a retryable error', () => {
+    for (const text of ['not json', '[1, 2]', 'null', '{"definition": ']) {
+      expect(() => validateLookupData(text)).toThrow(expect.objectContaining({ kind: 'parse', retryable: true }));
+    }
+  });
+});
+
+describe('validateStoryResult', () => {
+  it('keeps well-formed questions and drops the rest', () => {
+    const story = validateStoryResult(JSON.stringify({
+      title: 'A day out',
+      sentences: [{ target: 'Hola.', native: 'Hello.' }],
+      questions: [
+        { question: 'Who?', choices: ['A', 'B'], answer: 1 },
+        { question: 'Out of range', choices: ['A', 'B'], answer: 2 },
+        { question: 'Too few', choices: ['A'], answer: 0 },
+      ],
+    }));
+    expect(story.sentences).toEqual([{ target: 'Hola.', native: 'Hello.', words: [] }]);
+    expect(story.questions).toEqual([{ question: 'Who?', choices: ['A', 'B'], answer: 1 }]);
+  });
+});
+
+describe('parsePartialJSON', () => {
+  it('closes an open string, array and object', () => {
+    expect(parsePartialJSON('{"definition": "a sm')).toEqual({ definition: 'a sm' });
+    expect(parsePartialJSON('{"examples": [{"target": "Ho')).toEqual({ examples: [{ target: 'Ho' }] });
+  });
+
+  it('fills in a value that has not arrived yet', () => {
+    expect(parsePartialJSON('{"definition": ')).toEqual({ definition: null });
+    expect(parsePartialJSON('{"tags": ["a", ')).toEqual({ tags: ['a'] });
+  });
+
+  it('drops a key that is still being written', () => {
+    expect(parsePartialJSON('{"definition": "cat", "usa')).toEqual({ definition: 'cat' });
+    expect(parsePartialJSON('{"definition": "cat", "usageGuide"')).toEqual({ definition: 'cat' });
+  });
+
+  it('does not end a string at an escaped quote or a dangling backslash', () => {
+    expect(parsePartialJSON('{"definition": "say \\"hi\\" ')).toEqual({ definition: 'say "hi" ' });
+    expect(parsePartialJSON('{"definition": "line\\')).toEqual({ definition: 'line' });
+  });
+
+  it('returns undefined until anything can be parsed', () => {
+    expect(parsePartialJSON('')).toBeUndefined();
+    expect(parsePartialJSON('{"')).toEqual({});
+  });
+
+  it('parses every prefix of a streamed lookup, ending with the whole response', () => {
+    const text = mockLookup('gato');
+    for (let end = 1; end < text.length; end++) {
+      const partial = parsePartialJSON(text.slice(0, end));
+      if (partial !== undefined) expect(() => partialLookupData(partial)).not.toThrow();
+    }
+    expect(parsePartialJSON(text)).toEqual(JSON.parse(text));
+  });
+});
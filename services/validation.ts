@@ -0,0 +1,296 @@
+import {
+  ComprehensionQuestion, DictionaryEntry, Example, GrammarPoint, InflectionTable, PronunciationAssessment, RecognizedText, Sense,
+  SentenceAnalysis, SentenceToken, StoryResult, StorySentence, StoryWordUse,
+} from "../types";
+import { ParseError } from "./errors";
+
+// --- Response Validation ---
+// Model JSON is checked against the same contract as our types before it
+// reaches the UI. Anything that doesn't fit throws a ParseError, which
+// withRetry treats as a reason to ask again.
+
+export type LookupData = Pick<
+  DictionaryEntry,
+  'lemma' | 'definition' | 'phonetic' | 'examples' | 'usageGuide' | 'partOfSpeech' | 'gender' | 'inflections' | 'senses' | 'synonyms' | 'antonyms' | 'collocations'
+>;
+
+type JSONRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JSONRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJSON = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ParseError('The AI response was not valid JSON.', error);
+  }
+};
+
+const parseObject = (text: string): JSONRecord => {
+  const data = parseJSON(text);
+  if (!isRecord(data)) throw new ParseError('Expected a JSON object in the AI response.');
+  return data;
+};
+
+const requireString = (data: JSONRecord, field: string): string => {
+  const value = data[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ParseError(`The AI response is missing "${field}".`);
+  }
+  return value.trim();
+};
+
+const optionalString = (data: JSONRecord, field: string): string | undefined => {
+  const value = data[field];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const toExample = (value: unknown): Example | null =>
+  isRecord(value) && typeof value.target === 'string' && typeof value.native === 'string' && value.target.trim()
+    ? { target: value.target.trim(), native: value.native.trim() }
+    : null;
+
+// Keeps well-formed examples and drops the rest; at least one must survive
+const requireExamples = (data: JSONRecord, field: string): Example[] => {
+  const value = data[field];
+  const examples = Array.isArray(value)
+    ? value.map(toExample).filter((example): example is Example => example !== null)
+    : [];
+  if (examples.length === 0) throw new ParseError(`The AI response has no usable "${field}".`);
+  return examples;
+};
+
+// Non-empty strings only; anything else is dropped
+const stringList = (data: JSONRecord, field: string): string[] => {
+  const value = data[field];
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim())
+    : [];
+};
+
+const toSense = (value: unknown): Sense | null =>
+  isRecord(value) && typeof value.definition === 'string' && value.definition.trim()
+    ? {
+      definition: value.definition.trim(),
+      examples: Array.isArray(value.examples) ? value.examples.map(toExample).filter((example): example is Example => example !== null) : [],
+    }
+    : null;
+
+// Rows without a form are dropped, and so are tables left with no rows
+const toInflectionTable = (value: unknown): InflectionTable | null => {
+  if (!isRecord(value) || typeof value.title !== 'string' || !Array.isArray(value.rows)) return null;
+  const rows = value.rows
+    .filter((row): row is JSONRecord => isRecord(row) && typeof row.form === 'string' && !!row.form.trim())
+    .map(row => ({ label: typeof row.label === 'string' ? row.label.trim() : '', form: (row.form as string).trim() }));
+  return rows.length > 0 ? { title: value.title.trim(), rows } : null;
+};
+
+// The grammar and related-word fields are all optional: an empty or
+// malformed list is left out rather than failing the lookup
+const optionalList = <T>(data: JSONRecord, field: string, convert: (value: unknown) => T | null): T[] | undefined => {
+  const value = data[field];
+  const items = Array.isArray(value) ? value.map(convert).filter((item): item is T => item !== null) : [];
+  return items.length > 0 ? items : undefined;
+};
+
+const optionalStrings = (data: JSONRecord, field: string): string[] | undefined => {
+  const items = stringList(data, field);
+  return items.length > 0 ? items : undefined;
+};
+
+const grammarData = (data: JSONRecord) => {
+  const senses = optionalList(data, 'senses', toSense);
+  return {
+    partOfSpeech: optionalString(data, 'partOfSpeech'),
+    gender: optionalString(data, 'gender'),
+    inflections: optionalList(data, 'inflections', toInflectionTable),
+    senses: senses && senses.length > 1 ? senses : undefined, // One sense is just the definition
+    synonyms: optionalStrings(data, 'synonyms'),
+    antonyms: optionalStrings(data, 'antonyms'),
+    collocations: optionalStrings(data, 'collocations'),
+  };
+};
+
+export const validateLookupData = (text: string): LookupData => {
+  const data = parseObject(text);
+  return {
+    lemma: optionalString(data, 'lemma'),
+    definition: requireString(data, 'definition'),
+    phonetic: optionalString(data, 'phonetic'),
+    examples: requireExamples(data, 'examples'),
+    usageGuide: requireString(data, 'usageGuide'),
+    ...grammarData(data),
+  };
+};
+
+const toWordUse = (value: unknown): StoryWordUse | null =>
+  isRecord(value) && typeof value.form === 'string' && typeof value.term === 'string' && value.form.trim() && value.term.trim()
+    ? { form: value.form.trim(), term: value.term.trim() }
+    : null;
+
+const toSentence = (value: unknown): StorySentence | null => {
+  if (!isRecord(value) || typeof value.target !== 'string' || !value.target.trim()) return null;
+  const words = Array.isArray(value.words) ? value.words : [];
+  return {
+    target: value.target.trim(),
+    native: typeof value.native === 'string' ? value.native.trim() : '',
+    words: words.map(toWordUse).filter((word): word is StoryWordUse => word !== null),
+  };
+};
+
+// The answer must point at one of at least two choices
+const toQuestion = (value: unknown): ComprehensionQuestion | null => {
+  if (!isRecord(value) || typeof value.question !== 'string' || !value.question.trim()) return null;
+  const choices = stringList(value, 'choices');
+  const answer = Number(value.answer);
+  return choices.length >= 2 && Number.isInteger(answer) && answer >= 0 && answer < choices.length
+    ? { question: value.question.trim(), choices, answer }
+    : null;
+};
+
+// Malformed questions are dropped rather than failing the whole story
+export const validateStoryResult = (text: string): StoryResult => {
+  const data = parseObject(text);
+  const sentences = Array.isArray(data.sentences)
+    ? data.sentences.map(toSentence).filter((sentence): sentence is StorySentence => sentence !== null)
+    : [];
+  if (sentences.length === 0) throw new ParseError('The AI response has no usable "sentences".');
+  const questions = Array.isArray(data.questions) ? data.questions : [];
+  return {
+    title: requireString(data, 'title'),
+    sentences,
+    questions: questions.map(toQuestion).filter((question): question is ComprehensionQuestion => question !== null),
+  };
+};
+
+export const validatePronunciation = (text: string): PronunciationAssessment => {
+  const data = parseObject(text);
+  const score = Number(data.score);
+  if (!Number.isFinite(score)) throw new ParseError('The AI response is missing "score".');
+  return {
+    transcript: optionalString(data, 'transcript') || '', // Empty when nothing intelligible was heard
+    score: Math.round(Math.min(100, Math.max(0, score))),
+    feedback: requireString(data, 'feedback'),
+    tips: stringList(data, 'tips'),
+  };
+};
+
+// A photo with no readable text is a valid answer: both lists come back empty
+export const validateRecognizedText = (text: string): RecognizedText => {
+  const data = parseObject(text);
+  if (!Array.isArray(data.lines)) throw new ParseError('The AI response is missing "lines".');
+  return {
+    lines: stringList(data, 'lines'),
+    phrases: stringList(data, 'phrases'),
+  };
+};
+
+export const validateSuggestedWord = (text: string): string =>
+  requireString(parseObject(text), 'term');
+
+// A token keeps its own text as the lemma when the model leaves it out
+const toToken = (value: unknown): SentenceToken | null => {
+  if (!isRecord(value) || typeof value.text !== 'string' || !value.text.trim()) return null;
+  return {
+    text: value.text.trim(),
+    lemma: optionalString(value, 'lemma') || value.text.trim(),
+    gloss: optionalString(value, 'gloss') || '',
+    partOfSpeech: optionalString(value, 'partOfSpeech'),
+  };
+};
+
+const toGrammarPoint = (value: unknown): GrammarPoint | null =>
+  isRecord(value) && typeof value.title === 'string' && typeof value.explanation === 'string' && value.explanation.trim()
+    ? { title: value.title.trim(), explanation: value.explanation.trim() }
+    : null;
+
+export const validateSentenceAnalysis = (text: string): SentenceAnalysis => {
+  const data = parseObject(text);
+  const tokens = optionalList(data, 'tokens', toToken);
+  if (!tokens) throw new ParseError('The AI response has no usable "tokens".');
+  return {
+    translation: requireString(data, 'translation'),
+    tokens,
+    grammar: optionalList(data, 'grammar', toGrammarPoint) || [],
+  };
+};
+
+// --- Partial Results ---
+// While a response is still streaming we show whatever has arrived. These
+// never throw: a half-written field is simply shown as far as it got.
+
+// Parses a truncated JSON document by closing any open string, array and
+// object. Returns undefined if the prefix can't be completed yet.
+export const parsePartialJSON = (text: string): unknown => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    }
+  }
+
+  let completed = escaped ? text.slice(0, -1) : text;
+  if (inString) completed += '"';
+  completed = completed.replace(/,\s*$/, '').replace(/:\s*$/, ': null');
+  const suffix = closers.reverse().join('');
+
+  // The last resort drops a trailing key that has no value yet
+  const candidates = [completed, completed.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*$/, '')];
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate + suffix);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+};
+
+const partialString = (data: JSONRecord, field: string): string =>
+  typeof data[field] === 'string' ? (data[field] as string) : '';
+
+export const partialLookupData = (data: unknown): LookupData => {
+  const record = isRecord(data) ? data : {};
+  const examples = Array.isArray(record.examples) ? record.examples : [];
+  return {
+    definition: partialString(record, 'definition'),
+    phonetic: partialString(record, 'phonetic') || undefined,
+    examples: examples.map(toExample).filter((example): example is Example => example !== null),
+    usageGuide: partialString(record, 'usageGuide'),
+    ...grammarData(record),
+  };
+};
+
+export const partialSentenceAnalysis = (data: unknown): SentenceAnalysis => {
+  const record = isRecord(data) ? data : {};
+  return {
+    translation: partialString(record, 'translation'),
+    tokens: optionalList(record, 'tokens', toToken) || [],
+    grammar: optionalList(record, 'grammar', toGrammarPoint) || [],
+  };
+};
+
+// Questions arrive last and are only shown once the story is complete
+export const partialStoryResult = (data: unknown): StoryResult => {
+  const record = isRecord(data) ? data : {};
+  const sentences = Array.isArray(record.sentences) ? record.sentences : [];
+  return {
+    title: partialString(record, 'title'),
+    sentences: sentences.map(toSentence).filter((sentence): sentence is StorySentence => sentence !== null),
+    questions: [],
+  };
+};
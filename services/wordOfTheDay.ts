@@ -0,0 +1,45 @@
+import { DictionaryEntry, Language, LearnerProfile } from "../types";
+import { suggestWord } from "./geminiService";
+import { startOfDay } from "./scheduler";
+import { loadSettings, saveSettings } from "./storage";
+
+// --- Word of the Day ---
+// Shown on the home screen. It comes from the notebook when there is one,
+// so it doubles as a nudge to revisit an old word; otherwise the model
+// suggests one at the learner's level, once per day and language pair.
+
+export interface DailyWord {
+  day: number; // Local midnight
+  nativeLang: string;
+  targetLang: string;
+  term: string;
+}
+
+// The same word all day. Words saved today are left out, so saving a word
+// doesn't change the pick.
+export const pickNotebookWord = (entries: DictionaryEntry[], now: number): DictionaryEntry | undefined => {
+  const today = startOfDay(now);
+  const candidates = entries.filter(e => e.savedAt < today).sort((a, b) => a.savedAt - b.savedAt);
+  if (candidates.length === 0) return undefined;
+  const dayNumber = Math.round(today / (24 * 60 * 60 * 1000));
+  return candidates[dayNumber % candidates.length];
+};
+
+// Today's suggested term, asking the model only if the stored one is from
+// another day or pair
+export const getSuggestedWord = async (
+  nativeLanguage: Language,
+  targetLanguage: Language,
+  profile: LearnerProfile,
+  now: number
+): Promise<string> => {
+  const day = startOfDay(now);
+  const { dailyWord } = await loadSettings();
+  if (dailyWord && dailyWord.day === day && dailyWord.nativeLang === nativeLanguage.code && dailyWord.targetLang === targetLanguage.code) {
+    return dailyWord.term;
+  }
+
+  const term = await suggestWord(nativeLanguage, targetLanguage, profile, new Date(day).toDateString());
+  await saveSettings({ dailyWord: { day, nativeLang: nativeLanguage.code, targetLang: targetLanguage.code, term } });
+  return term;
+};
@@ -4,13 +4,25 @@ export enum ViewState {
   RESULT = 'RESULT',
   NOTEBOOK = 'NOTEBOOK',
   STORY = 'STORY',
-  FLASHCARDS = 'FLASHCARDS'
+  FLASHCARDS = 'FLASHCARDS',
+  SETTINGS = 'SETTINGS',
+  QUIZ = 'QUIZ',
+  READER = 'READER',
+  SENTENCE = 'SENTENCE',
+  STATS = 'STATS'
 }
 
+export type WritingScript = 'latin' | 'cyrillic' | 'han' | 'japanese' | 'hangul' | 'arabic' | 'devanagari';
+
 export interface Language {
-  code: string;
+  code: string; // BCP 47, also used as the HTML lang attribute
   name: string;
+  nativeName: string; // What speakers call it; searchable in the picker
   flag: string;
+  script: WritingScript;
+  rtl: boolean;
+  voice: string; // Preferred TTS voice for reading this language aloud
+  romanization?: string; // Scheme for pronunciation guides in non-Latin scripts
 }
 
 export interface Example {
@@ -18,23 +30,175 @@ export interface Example {
   native: string;
 }
 
+// --- Sentence Breakdown ---
+
+export interface SentenceToken {
+  text: string; // As written in the sentence
+  lemma: string; // Dictionary form, which is what gets saved
+  gloss: string; // Literal meaning in the native language
+  partOfSpeech?: string;
+}
+
+export interface GrammarPoint {
+  title: string;
+  explanation: string;
+}
+
+export interface SentenceAnalysis {
+  translation: string; // Natural, not word for word
+  tokens: SentenceToken[]; // In sentence order, punctuation left out
+  grammar: GrammarPoint[];
+}
+
+// One meaning of a word that has several
+export interface Sense {
+  definition: string;
+  examples: Example[];
+}
+
+// A conjugation or declension, e.g. "Present tense" with rows "yo" → "hablo"
+export interface InflectionTable {
+  title: string;
+  rows: { label: string; form: string }[];
+}
+
 export interface DictionaryEntry {
   id: string; // unique ID for React keys
   term: string;
+  lemma?: string; // Dictionary form when the term is inflected, e.g. "correr" for "corrió"
   phonetic?: string; // Derived or generated
   definition: string;
   examples: Example[];
   usageGuide: string;
+  // Grammar and related words. Entries saved before these existed lack them,
+  // as do words and phrases they don't apply to.
+  partOfSpeech?: string;
+  gender?: string; // Only for languages that mark it
+  inflections?: InflectionTable[];
+  senses?: Sense[]; // Only when there is more than one meaning
+  synonyms?: string[];
+  antonyms?: string[];
+  collocations?: string[];
   imageUrl?: string; // Base64
+  sourceImage?: string; // Photo the word was looked up from, as a data or object URL
   savedAt: number;
+  nativeLang: string; // Language code the entry was explained in
+  targetLang: string; // Language code of the term
+  tags: string[];
+  folder?: string;
+  review?: ReviewState; // Absent until the card is first studied
+  pronunciation?: PronunciationAttempt[]; // Oldest first
+  quiz?: QuizStats; // Absent until the word first appears in a quiz
+  notes?: EntryNote[]; // Tutor answers pinned from the chat
+}
+
+export interface EntryNote {
+  text: string;
+  pinnedAt: number; // epoch ms, also identifies the note
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewState {
+  ease: number;
+  interval: number; // days
+  repetitions: number; // consecutive successful reviews
+  lapses: number;
+  due: number; // epoch ms
+  lastReviewed?: number;
+  introducedAt?: number; // First study, counted against the daily new-card limit
+}
+
+export interface RecognizedText {
+  lines: string[]; // Text in the photo, line by line as printed
+  phrases: string[]; // Multi-word items worth looking up whole, e.g. dish names
+}
+
+export interface QuizStats {
+  attempts: number;
+  correct: number;
+  streak: number; // Consecutive correct answers
+  lastQuizzed: number; // epoch ms
+}
+
+export interface PronunciationAssessment {
+  transcript: string; // What the model heard
+  score: number; // 0-100
+  feedback: string;
+  tips: string[]; // Specific sounds to work on
+}
+
+export interface PronunciationAttempt extends PronunciationAssessment {
+  at: number; // epoch ms
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  failed?: boolean; // An error notice shown in place of a reply; never stored
+}
+
+export type CEFRLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export type ExplanationStyle = 'casual' | 'balanced' | 'formal';
+
+export interface LearnerProfile {
+  levels: Record<string, CEFRLevel>; // By target language code; unset languages use DEFAULT_LEVEL
+  interests: string[];
+  style: ExplanationStyle;
+}
+
+export type StoryLength = 'short' | 'medium' | 'long';
+
+export interface StoryOptions {
+  level: CEFRLevel;
+  length: StoryLength;
+  genre: string;
+}
+
+// A notebook word as it appears in a sentence, e.g. form "corrió" for term "correr"
+export interface StoryWordUse {
+  form: string;
+  term: string;
+}
+
+export interface StorySentence {
+  target: string;
+  native: string; // Empty for stories saved before translations were added
+  words: StoryWordUse[];
+}
+
+export interface ComprehensionQuestion {
+  question: string; // In the learner's native language
+  choices: string[];
+  answer: number; // Index into choices
 }
 
 export interface StoryResult {
   title: string;
-  content: string;
-}
\ No newline at end of file
+  sentences: StorySentence[];
+  questions: ComprehensionQuestion[];
+}
+export interface SavedStory extends StoryResult {
+  id: string;
+  createdAt: number;
+  nativeLang: string;
+  targetLang: string;
+  options?: StoryOptions; // Missing on stories made before there were options
+}
+
+export type ActivityKind = 'lookup' | 'save' | 'review' | 'quiz';
+
+// One thing the learner did, kept in a local log that the progress
+// dashboard is computed from
+export interface ActivityEvent {
+  id?: number; // Assigned by IndexedDB
+  kind: ActivityKind;
+  at: number;
+  nativeLang: string;
+  targetLang: string;
+  term: string;
+  grade?: ReviewGrade; // Reviews only
+  wasLearned?: boolean; // Reviews only: the card had already graduated, so the review counts toward retention
+  correct?: boolean; // Quiz answers only
+}